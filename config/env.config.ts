@@ -0,0 +1,235 @@
+/**
+ * Environment Configuration
+ *
+ * Loads `env/.env.<ENVIRONMENT>` (default: dev), validates it with a zod
+ * schema and exposes a typed config object. Missing or invalid keys fail
+ * fast with one readable list instead of surfacing deep inside a test.
+ * Secrets are masked whenever the config is printed or serialized.
+ */
+
+import dotenv from 'dotenv';
+import { inspect } from 'util';
+import { z } from 'zod';
+
+// ==================== Schema ====================
+
+const optionalEmail = z.email().optional();
+const optionalString = z.string().min(1).optional();
+
+/**
+ * Raw environment variables, as read from the env file and the process
+ */
+export const envSchema = z.object({
+  URL: z.url(),
+  API_URL: z.url(),
+  EMAIL: z.email(),
+  PASSWORD: z.string().min(1),
+  USER_NAME: z.string().min(1),
+  ACCESS_TOKEN: optionalString,
+  READER_EMAIL: optionalEmail,
+  READER_PASSWORD: optionalString,
+  READER_USER_NAME: optionalString,
+  FOLLOWER_EMAIL: optionalEmail,
+  FOLLOWER_PASSWORD: optionalString,
+  FOLLOWER_USER_NAME: optionalString,
+  AUTH_UI_LOGIN: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  CLEANUP_LEDGER_DIR: z.string().min(1).default('.cleanup-ledger'),
+  CLEANUP_LEDGER_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+  CLEANUP_LEDGER_MAX_AGE_HOURS: z.coerce.number().positive().default(72),
+  SWEEP_MAX_AGE_HOURS: z.coerce.number().positive().default(24),
+  MOCK_API: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  API_RECORD_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  API_RECORDINGS_DIR: z.string().min(1).default('recordings'),
+  SCHEMA_STRICT_MODE: z.enum(['off', 'warn', 'fail']).default('off'),
+});
+
+export type EnvVariables = z.output<typeof envSchema>;
+
+/** Keys whose values are never printed */
+export const SECRET_ENV_KEYS = ['PASSWORD', 'ACCESS_TOKEN', 'READER_PASSWORD', 'FOLLOWER_PASSWORD'];
+
+const MASK = '***';
+
+// ==================== Errors ====================
+
+export interface ConfigIssue {
+  key: string;
+  problem: string;
+}
+
+/**
+ * Error for a missing or invalid environment configuration
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly issues: ConfigIssue[],
+    public readonly envFile: string
+  ) {
+    super(
+      [
+        `Invalid environment configuration (${envFile}):`,
+        ...issues.map(({ key, problem }) => `  - ${key}: ${problem}`),
+      ].join('\n')
+    );
+    this.name = 'ConfigError';
+    Object.setPrototypeOf(this, ConfigError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] ${this.message}`;
+  }
+}
+
+// ==================== Config ====================
+
+export interface Credentials {
+  email: string;
+  password: string;
+  username: string;
+}
+
+/**
+ * Validated, typed environment configuration
+ */
+export class EnvConfig {
+  /** Environment name (selects `env/.env.<environment>`) */
+  readonly environment: string;
+  /** Frontend URL */
+  readonly baseUrl: string;
+  /** API URL (with trailing slash, e.g. `https://api.example.com/`) */
+  readonly apiUrl: string;
+  /** Default test user (the `author` persona) */
+  readonly user: Credentials;
+  /** Also run the UI login smoke test in auth setup */
+  readonly authUiLogin: boolean;
+  /** Directory of the on-disk cleanup ledger */
+  readonly cleanupLedgerDir: string;
+  /** Ledger entries are dropped after this many failed replays */
+  readonly cleanupLedgerMaxAttempts: number;
+  /** Ledger entries older than this are dropped without being replayed */
+  readonly cleanupLedgerMaxAgeHours: number;
+  /** Articles older than this are removed by the orphan sweeper */
+  readonly sweepMaxAgeHours: number;
+  /** Serve API_URL from the in-memory mock Conduit API (see mock-server/) */
+  readonly mockApi: boolean;
+  /** Record API traffic to fixture files or replay it (see fixtures/api/client/recording.ts) */
+  readonly apiRecordMode: 'off' | 'record' | 'replay';
+  /** Directory of the recorded API fixtures */
+  readonly apiRecordingsDir: string;
+  /** Report response keys the schemas do not declare (see fixtures/api/helpers/schema-drift.ts) */
+  readonly schemaStrictMode: 'off' | 'warn' | 'fail';
+
+  constructor(
+    environment: string,
+    private readonly variables: EnvVariables
+  ) {
+    this.environment = environment;
+    this.baseUrl = variables.URL;
+    this.apiUrl = variables.API_URL;
+    this.user = {
+      email: variables.EMAIL,
+      password: variables.PASSWORD,
+      username: variables.USER_NAME,
+    };
+    this.authUiLogin = variables.AUTH_UI_LOGIN;
+    this.cleanupLedgerDir = variables.CLEANUP_LEDGER_DIR;
+    this.cleanupLedgerMaxAttempts = variables.CLEANUP_LEDGER_MAX_ATTEMPTS;
+    this.cleanupLedgerMaxAgeHours = variables.CLEANUP_LEDGER_MAX_AGE_HOURS;
+    this.sweepMaxAgeHours = variables.SWEEP_MAX_AGE_HOURS;
+    this.mockApi = variables.MOCK_API;
+    this.apiRecordMode = variables.API_RECORD_MODE;
+    this.apiRecordingsDir = variables.API_RECORDINGS_DIR;
+    this.schemaStrictMode = variables.SCHEMA_STRICT_MODE;
+  }
+
+  /**
+   * Token of the default test user; set by auth setup and refreshed by the
+   * author's auth session, so it is read from the process on every access
+   */
+  get accessToken(): string | undefined {
+    return process.env.ACCESS_TOKEN || undefined;
+  }
+
+  set accessToken(token: string | undefined) {
+    if (token) {
+      process.env.ACCESS_TOKEN = token;
+    } else {
+      delete process.env.ACCESS_TOKEN;
+    }
+  }
+
+  /**
+   * Validated variables with secrets masked
+   */
+  toJSON(): Record<string, unknown> {
+    const variables: Record<string, unknown> = {
+      ...this.variables,
+      ACCESS_TOKEN: this.accessToken,
+    };
+    for (const key of SECRET_ENV_KEYS) {
+      if (variables[key] !== undefined) {
+        variables[key] = MASK;
+      }
+    }
+    return { environment: this.environment, ...variables };
+  }
+
+  toString(): string {
+    return JSON.stringify(this, null, 2);
+  }
+
+  [inspect.custom](): Record<string, unknown> {
+    return this.toJSON();
+  }
+}
+
+// ==================== Loading ====================
+
+/**
+ * Path of the env file for an environment
+ */
+export function envFilePath(environment: string): string {
+  return `./env/.env.${environment}`;
+}
+
+/**
+ * Validate raw variables (empty values count as missing)
+ *
+ * @throws ConfigError listing every missing or invalid key
+ */
+export function parseEnvConfig(
+  environment: string,
+  env: NodeJS.ProcessEnv = process.env
+): EnvConfig {
+  const raw = Object.fromEntries(
+    Object.keys(envSchema.shape).map((key) => [key, env[key] === '' ? undefined : env[key]])
+  );
+
+  const result = envSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      const key = issue.path.join('.');
+      return { key, problem: raw[key] === undefined ? 'missing' : issue.message };
+    });
+    throw new ConfigError(issues, envFilePath(environment));
+  }
+
+  return new EnvConfig(environment, result.data);
+}
+
+/**
+ * Load `env/.env.<environment>` into the process and validate it.
+ * Variables already set in the process (e.g. by CI) take precedence.
+ *
+ * @throws ConfigError listing every missing or invalid key
+ */
+export function loadEnvConfig(environment: string = process.env.ENVIRONMENT || 'dev'): EnvConfig {
+  dotenv.config({ path: envFilePath(environment), quiet: true });
+  return parseEnvConfig(environment);
+}
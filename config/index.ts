@@ -0,0 +1,8 @@
+import { loadEnvConfig } from './env.config';
+
+export * from './env.config';
+
+/**
+ * Configuration of the current run, validated on first import
+ */
+export const config = loadEnvConfig();
@@ -2,30 +2,31 @@
  * Article API Client
  *
  * Provides type-safe methods for article-related API operations
- * with built-in schema validation and error handling.
+ * with built-in schema validation and error handling, driven by the
+ * typed endpoint catalog (see `ENDPOINTS`).
+ * Payloads are validated before sending; pass `{ skipBodyValidation: true }`
+ * to deliberately send malformed data in negative tests.
  */
 
 import { APIRequestContext } from '@playwright/test';
-import { BaseApiClient, RequestOptions } from '../client/base-api-client';
-import { NotFoundError } from '../errors';
 import {
-  ArticleResponseSchema,
-  ArticlesResponseSchema,
-  CommentResponseSchema,
-  CommentsResponseSchema,
-} from '../schemas/api-schemas';
+  ApiClientOptions,
+  BaseApiClient,
+  CreateOptions,
+  PayloadOptions,
+} from '../client/base-api-client';
+import { NotFoundError } from '../errors';
+import { ArticleResponseSchema } from '../schemas/api-schemas';
+import { collectPages, Page, paginate, PaginationOptions } from '../helpers/pagination-helpers';
 import {
   Article,
   ArticleResponse,
   ArticlesResponse,
   Comment,
-  CommentResponse,
-  CommentsResponse,
   CreateArticlePayload,
   UpdateArticlePayload,
   CreateCommentPayload,
 } from '../types';
-import { API_ENDPOINTS } from '../../../test-data/constants';
 
 /**
  * Query parameters for listing articles
@@ -47,23 +48,24 @@ export interface ArticleQueryParams {
  * Article API Client with full CRUD operations
  */
 export class ArticleApiClient extends BaseApiClient {
-  constructor(request: APIRequestContext, baseUrl: string, token?: string) {
-    super(request, baseUrl, token);
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
+    super(request, baseUrl, token, options);
   }
 
   // ==================== Article CRUD ====================
 
   /**
-   * Create a new article
+   * Create a new article. Creates are not retried unless `options.retry`
+   * opts in, e.g. with `UNIQUE_CREATE_RETRY` for timestamp-prefixed titles.
    */
-  async createArticle(payload: CreateArticlePayload): Promise<Article> {
-    const { data } = await this.postValidated<ArticleResponse>(
-      `${API_ENDPOINTS.articles.base}/`,
-      ArticleResponseSchema,
-      'ArticleResponse',
-      { body: payload as unknown as Record<string, unknown> }
-    );
-    return data.article;
+  async createArticle(payload: CreateArticlePayload, options?: CreateOptions): Promise<Article> {
+    const { article } = await this.call('articles.create', { body: payload }, options);
+    return article;
   }
 
   /**
@@ -71,12 +73,8 @@ export class ArticleApiClient extends BaseApiClient {
    */
   async getArticle(slug: string): Promise<Article | null> {
     try {
-      const { data } = await this.getValidated<ArticleResponse>(
-        API_ENDPOINTS.articles.bySlug(slug),
-        ArticleResponseSchema,
-        'ArticleResponse'
-      );
-      return data.article;
+      const { article } = await this.call('articles.get', { slug });
+      return article;
     } catch (error) {
       // Return null for 404 instead of throwing
       if (error instanceof NotFoundError) {
@@ -90,9 +88,11 @@ export class ArticleApiClient extends BaseApiClient {
    * Get article by slug (returns full response with status)
    */
   async getArticleResponse(slug: string): Promise<{ status: number; article: Article | null }> {
-    const response = await this.get<ArticleResponse>(API_ENDPOINTS.articles.bySlug(slug), {
-      failSilently: true,
-    });
+    const response = await this.callRaw<ArticleResponse>(
+      'articles.get',
+      { slug },
+      { failSilently: true }
+    );
 
     if (response.status === 404) {
       return { status: 404, article: null };
@@ -109,21 +109,20 @@ export class ArticleApiClient extends BaseApiClient {
   /**
    * Update an article
    */
-  async updateArticle(slug: string, payload: UpdateArticlePayload): Promise<Article> {
-    const { data } = await this.putValidated<ArticleResponse>(
-      API_ENDPOINTS.articles.bySlug(slug),
-      ArticleResponseSchema,
-      'ArticleResponse',
-      { body: payload as unknown as Record<string, unknown> }
-    );
-    return data.article;
+  async updateArticle(
+    slug: string,
+    payload: UpdateArticlePayload,
+    options?: PayloadOptions
+  ): Promise<Article> {
+    const { article } = await this.call('articles.update', { slug, body: payload }, options);
+    return article;
   }
 
   /**
    * Delete an article
    */
   async deleteArticle(slug: string): Promise<boolean> {
-    const response = await this.delete(API_ENDPOINTS.articles.bySlug(slug));
+    const response = await this.callRaw('articles.delete', { slug });
     return response.status === 204;
   }
 
@@ -131,7 +130,7 @@ export class ArticleApiClient extends BaseApiClient {
    * Delete article if exists (silent failure)
    */
   async deleteArticleIfExists(slug: string): Promise<void> {
-    await this.delete(API_ENDPOINTS.articles.bySlug(slug), { failSilently: true });
+    await this.callRaw('articles.delete', { slug }, { failSilently: true });
   }
 
   // ==================== Article Listing ====================
@@ -140,13 +139,7 @@ export class ArticleApiClient extends BaseApiClient {
    * List articles with optional filters
    */
   async listArticles(params?: ArticleQueryParams): Promise<ArticlesResponse> {
-    const { data } = await this.getValidated<ArticlesResponse>(
-      API_ENDPOINTS.articles.base,
-      ArticlesResponseSchema,
-      'ArticlesResponse',
-      { params: params as Record<string, string | number | boolean> }
-    );
-    return data;
+    return this.call('articles.list', { query: { ...params } });
   }
 
   /**
@@ -155,13 +148,75 @@ export class ArticleApiClient extends BaseApiClient {
   async listFeedArticles(
     params?: Pick<ArticleQueryParams, 'limit' | 'offset'>
   ): Promise<ArticlesResponse> {
-    const { data } = await this.getValidated<ArticlesResponse>(
-      `${API_ENDPOINTS.articles.base}/feed`,
-      ArticlesResponseSchema,
-      'ArticlesResponse',
-      { params: params as Record<string, string | number | boolean> }
-    );
-    return data;
+    return this.call('articles.feed', { query: { ...params } });
+  }
+
+  // ==================== Pagination ====================
+
+  /**
+   * Iterate over pages of articles, following `articlesCount`
+   */
+  iterateArticlePages(
+    params?: Omit<ArticleQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions
+  ): AsyncGenerator<Page<Article>> {
+    return paginate(async (limit, offset) => {
+      const { articles, articlesCount } = await this.listArticles({ ...params, limit, offset });
+      return { items: articles, total: articlesCount };
+    }, options);
+  }
+
+  /**
+   * Iterate over pages of the feed of followed users (requires auth)
+   */
+  iterateFeedPages(options?: PaginationOptions): AsyncGenerator<Page<Article>> {
+    return paginate(async (limit, offset) => {
+      const { articles, articlesCount } = await this.listFeedArticles({ limit, offset });
+      return { items: articles, total: articlesCount };
+    }, options);
+  }
+
+  /**
+   * Iterate over all articles matching the filters, one article at a time
+   *
+   * @example
+   * for await (const article of client.iterateArticles({ tag: 'playwright' })) { ... }
+   */
+  async *iterateArticles(
+    params?: Omit<ArticleQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions
+  ): AsyncGenerator<Article> {
+    for await (const page of this.iterateArticlePages(params, options)) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Iterate over all feed articles, one article at a time
+   */
+  async *iterateFeedArticles(options?: PaginationOptions): AsyncGenerator<Article> {
+    for await (const page of this.iterateFeedPages(options)) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collect all articles matching the filters (up to `max`)
+   */
+  async collectAllArticles(
+    params?: Omit<ArticleQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions
+  ): Promise<Article[]> {
+    const pages = await collectPages(this.iterateArticlePages(params, options));
+    return pages.flatMap((page) => page.items);
+  }
+
+  /**
+   * Collect all feed articles (up to `max`)
+   */
+  async collectFeedArticles(options?: PaginationOptions): Promise<Article[]> {
+    const pages = await collectPages(this.iterateFeedPages(options));
+    return pages.flatMap((page) => page.items);
   }
 
   // ==================== Favorites ====================
@@ -170,27 +225,16 @@ export class ArticleApiClient extends BaseApiClient {
    * Favorite an article
    */
   async favoriteArticle(slug: string): Promise<Article> {
-    const { data } = await this.postValidated<ArticleResponse>(
-      `${API_ENDPOINTS.articles.bySlug(slug)}/favorite`,
-      ArticleResponseSchema,
-      'ArticleResponse'
-    );
-    return data.article;
+    const { article } = await this.call('articles.favorite', { slug });
+    return article;
   }
 
   /**
    * Unfavorite an article
    */
   async unfavoriteArticle(slug: string): Promise<Article> {
-    const response = await this.delete<ArticleResponse>(
-      `${API_ENDPOINTS.articles.bySlug(slug)}/favorite`
-    );
-    const validated = this.validateResponse(
-      response.body,
-      ArticleResponseSchema,
-      'ArticleResponse'
-    );
-    return validated.article;
+    const { article } = await this.call('articles.unfavorite', { slug });
+    return article;
   }
 
   // ==================== Comments ====================
@@ -198,35 +242,28 @@ export class ArticleApiClient extends BaseApiClient {
   /**
    * Add comment to article
    */
-  async addComment(slug: string, payload: CreateCommentPayload): Promise<Comment> {
-    const { data } = await this.postValidated<CommentResponse>(
-      `${API_ENDPOINTS.articles.bySlug(slug)}/comments`,
-      CommentResponseSchema,
-      'CommentResponse',
-      { body: payload as unknown as Record<string, unknown> }
-    );
-    return data.comment;
+  async addComment(
+    slug: string,
+    payload: CreateCommentPayload,
+    options?: PayloadOptions
+  ): Promise<Comment> {
+    const { comment } = await this.call('comments.create', { slug, body: payload }, options);
+    return comment;
   }
 
   /**
    * Get comments for article
    */
   async getComments(slug: string): Promise<Comment[]> {
-    const { data } = await this.getValidated<CommentsResponse>(
-      `${API_ENDPOINTS.articles.bySlug(slug)}/comments`,
-      CommentsResponseSchema,
-      'CommentsResponse'
-    );
-    return data.comments;
+    const { comments } = await this.call('comments.list', { slug });
+    return comments;
   }
 
   /**
    * Delete a comment
    */
   async deleteComment(slug: string, commentId: number): Promise<boolean> {
-    const response = await this.delete(
-      `${API_ENDPOINTS.articles.bySlug(slug)}/comments/${commentId}`
-    );
+    const response = await this.callRaw('comments.delete', { slug, id: commentId });
     return response.status === 200 || response.status === 204;
   }
 }
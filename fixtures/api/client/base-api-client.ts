@@ -4,15 +4,55 @@
  * Abstract base class for all API services providing:
  * - Common HTTP methods (GET, POST, PUT, DELETE)
  * - Request/response logging
- * - Error handling with typed errors
- * - Response schema validation
- * - Authentication token management
+ * - Error handling with typed errors (HTTP and network failures)
+ * - Request payload and response schema validation (opt-in strict mode for schema drift)
+ * - Authentication token management (shared token providers, re-login on 401)
+ * - Record & replay of API traffic (see `recording.ts`)
+ * - Configurable retries with exponential backoff
+ * - Per-request timeouts, overall deadlines and cancellation
+ * - Typed calls driven by the endpoint catalog
+ * - Request/response interceptor pipeline
  */
 
 import { APIRequestContext, APIResponse } from '@playwright/test';
 import { z } from 'zod';
-import { ApiError, createApiError, SchemaValidationError } from '../errors';
+import {
+  ApiError,
+  createApiError,
+  createNetworkError,
+  describeError,
+  DeadlineExceededError,
+  NetworkErrorDetails,
+  NetworkTimeoutError,
+  RequestCancelledError,
+  RequestValidationError,
+  SchemaValidationError,
+} from '../errors';
 import { ApiResponse } from '../types';
+import { registerLogSource } from '../logging/api-log-collector';
+import {
+  EndpointDefinition,
+  EndpointInput,
+  EndpointName,
+  EndpointResult,
+  ENDPOINTS,
+  RawEndpointInput,
+  resolvePath,
+} from '../endpoints/api-endpoints';
+import { ApiInterceptor, isInterceptedResponse, RequestContext } from './interceptors';
+import { TokenProvider } from './token-provider';
+import { checkSchemaDrift, StrictMode, strictModeFromConfig } from '../helpers/schema-drift';
+import { recordingFromConfig, RecordingOptions, recordReplayInterceptor } from './recording';
+import {
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  HttpMethod,
+  isRetryableMethod,
+  isRetryableNetworkError,
+  isRetryableStatus,
+  resolveRetryPolicy,
+  RetryPolicy,
+} from './retry-policy';
 
 export interface RequestOptions {
   /** Request body (will be JSON stringified) */
@@ -25,8 +65,74 @@ export interface RequestOptions {
   skipAuth?: boolean;
   /** Fail silently on error (return null instead of throwing) */
   failSilently?: boolean;
+  /** Retry policy overrides for this call (`false` disables retries) */
+  retry?: Partial<RetryPolicy> | false;
+  /** Timeout of a single attempt in milliseconds (defaults to the client timeout) */
+  timeout?: number;
+  /** Overall deadline in milliseconds for all attempts including backoff delays */
+  totalTimeout?: number;
+  /** Cancels the request (and any pending retries) when aborted */
+  signal?: AbortSignal;
+  /** Schema the request body is validated against before sending */
+  bodySchema?: { schema: z.ZodType; name: string };
+  /** Send the body even if it does not match `bodySchema` (for negative tests) */
+  skipBodyValidation?: boolean;
 }
 
+/**
+ * Per-call options accepted by client methods that send a payload
+ */
+export type PayloadOptions = Pick<RequestOptions, 'skipBodyValidation'>;
+
+/**
+ * Per-call options of creates that may opt into retries (see `UNIQUE_CREATE_RETRY`)
+ */
+export type CreateOptions = PayloadOptions & Pick<RequestOptions, 'retry'>;
+
+/**
+ * Arguments of `call()`: the input is optional when the endpoint has no required fields
+ */
+export type EndpointArgs<K extends EndpointName> =
+  object extends EndpointInput<K>
+    ? [input?: EndpointInput<K>, options?: RequestOptions]
+    : [input: EndpointInput<K>, options?: RequestOptions];
+
+export interface ApiClientOptions {
+  /** Retry policy overrides applied to every request of the client */
+  retry?: Partial<RetryPolicy>;
+  /** Interceptors registered on construction (see `use`) */
+  interceptors?: ApiInterceptor[];
+  /** Default timeout of a single attempt in milliseconds (Playwright's default when omitted) */
+  timeout?: number;
+  /** Validate request bodies against their schemas (default: true) */
+  validatePayloads?: boolean;
+  /** Report response keys the schemas do not declare (default: SCHEMA_STRICT_MODE) */
+  strictSchemas?: StrictMode;
+  /** Scheme used for the default Authorization header (default: 'Token') */
+  authScheme?: string;
+  /** What request/response details are recorded in the logs */
+  logCapture?: Partial<LogCaptureOptions>;
+  /** Shared token source; takes precedence over the static token */
+  tokenProvider?: TokenProvider;
+  /** Record or replay traffic (default: API_RECORD_MODE from the env config) */
+  recording?: RecordingOptions;
+}
+
+export interface LogCaptureOptions {
+  /** Record request and response headers */
+  headers: boolean;
+  /** Record request and response bodies */
+  bodies: boolean;
+  /** Maximum serialized body size in characters before truncation */
+  maxBodySize: number;
+}
+
+export const DEFAULT_LOG_CAPTURE: LogCaptureOptions = {
+  headers: true,
+  bodies: true,
+  maxBodySize: 10_000,
+};
+
 export interface LogEntry {
   timestamp: string;
   method: string;
@@ -34,6 +140,14 @@ export interface LogEntry {
   status?: number;
   duration?: number;
   error?: string;
+  /** Attempt number (1-based) when the request was retried */
+  attempt?: number;
+  requestHeaders?: Record<string, string>;
+  requestBody?: unknown;
+  responseHeaders?: Record<string, string>;
+  /** Response body, replaced by a truncated string when over `maxBodySize` */
+  responseBody?: unknown;
+  responseBodyTruncated?: boolean;
 }
 
 /**
@@ -45,18 +159,52 @@ export abstract class BaseApiClient {
   protected token?: string;
   protected logs: LogEntry[] = [];
   protected enableLogging: boolean = true;
-
-  constructor(request: APIRequestContext, baseUrl: string, token?: string) {
+  protected retryPolicy: RetryPolicy;
+  protected interceptors: ApiInterceptor[] = [];
+  protected readonly authScheme: string;
+  protected logCapture: LogCaptureOptions;
+  protected readonly defaultTimeout?: number;
+  protected validatePayloads: boolean;
+  protected strictSchemas: StrictMode;
+  protected tokenProvider?: TokenProvider;
+
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
     this.request = request;
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
     this.token = token;
+    this.retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, options?.retry);
+    this.authScheme = options?.authScheme ?? 'Token';
+    this.logCapture = { ...DEFAULT_LOG_CAPTURE, ...options?.logCapture };
+    this.defaultTimeout = options?.timeout;
+    this.validatePayloads = options?.validatePayloads ?? true;
+    this.strictSchemas = options?.strictSchemas ?? strictModeFromConfig();
+    this.tokenProvider = options?.tokenProvider;
+    const recording = options?.recording ?? recordingFromConfig();
+    if (recording.mode !== 'off') {
+      // Registered first, so it records the response as the caller finally sees it
+      this.use(recordReplayInterceptor(recording));
+    }
+    options?.interceptors?.forEach((interceptor) => this.use(interceptor));
+    registerLogSource(this);
   }
 
   /**
    * Set authentication token
+   * A token provider that accepts tokens (e.g. an AuthSession) is kept and handed the
+   * token, so refresh and re-login keep working; any other provider is replaced.
    */
   setToken(token: string): void {
     this.token = token;
+    if (this.tokenProvider?.setToken) {
+      this.tokenProvider.setToken(token);
+    } else {
+      this.tokenProvider = undefined;
+    }
   }
 
   /**
@@ -66,6 +214,13 @@ export abstract class BaseApiClient {
     return this.token;
   }
 
+  /**
+   * Use a shared token provider (e.g. a persona's auth session) for all requests
+   */
+  setTokenProvider(provider: TokenProvider | undefined): void {
+    this.tokenProvider = provider;
+  }
+
   /**
    * Enable or disable logging
    */
@@ -73,6 +228,51 @@ export abstract class BaseApiClient {
     this.enableLogging = enabled;
   }
 
+  /**
+   * Enable or disable request payload validation for all calls of this client
+   */
+  setPayloadValidation(enabled: boolean): void {
+    this.validatePayloads = enabled;
+  }
+
+  /**
+   * Set how response keys the schemas do not declare are reported ('off', 'warn' or 'fail')
+   */
+  setStrictSchemas(mode: StrictMode): void {
+    this.strictSchemas = mode;
+  }
+
+  /**
+   * Configure which request/response details are recorded in the logs
+   */
+  setLogCapture(options: Partial<LogCaptureOptions>): void {
+    this.logCapture = { ...this.logCapture, ...options };
+  }
+
+  /**
+   * Override the client-wide retry policy
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = resolveRetryPolicy(this.retryPolicy, policy);
+  }
+
+  /**
+   * Get the client-wide retry policy
+   */
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+
+  /**
+   * Register an interceptor; returns a function that removes it again
+   */
+  use(interceptor: ApiInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((i) => i !== interceptor);
+    };
+  }
+
   /**
    * Get all logged requests
    */
@@ -97,7 +297,7 @@ export abstract class BaseApiClient {
     };
 
     if (this.token && !options?.skipAuth) {
-      headers['Authorization'] = `Token ${this.token}`;
+      headers['Authorization'] = `${this.authScheme} ${this.token}`;
     }
 
     return headers;
@@ -135,6 +335,91 @@ export abstract class BaseApiClient {
     }
   }
 
+  /**
+   * Request details to record for a request context
+   */
+  private captureRequest(context: RequestContext): Partial<LogEntry> {
+    return {
+      requestHeaders: this.logCapture.headers ? { ...context.headers } : undefined,
+      requestBody: this.logCapture.bodies ? context.body : undefined,
+    };
+  }
+
+  /**
+   * Response details to record, with the body capped at `maxBodySize`
+   */
+  private captureResponse(response: ApiResponse<unknown>): Partial<LogEntry> {
+    const captured: Partial<LogEntry> = {
+      responseHeaders: this.logCapture.headers ? response.headers : undefined,
+    };
+
+    if (this.logCapture.bodies && response.body !== null && response.body !== undefined) {
+      const serialized =
+        typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+      if (serialized.length > this.logCapture.maxBodySize) {
+        captured.responseBody = serialized.slice(0, this.logCapture.maxBodySize);
+        captured.responseBodyTruncated = true;
+      } else {
+        captured.responseBody = response.body;
+      }
+    }
+
+    return captured;
+  }
+
+  /**
+   * Call a catalog endpoint with typed input, returning the validated response body
+   *
+   * @example
+   * const { article } = await client.call('articles.favorite', { slug });
+   */
+  async call<K extends EndpointName>(
+    name: K,
+    ...args: EndpointArgs<K>
+  ): Promise<EndpointResult<K>> {
+    const definition: EndpointDefinition = ENDPOINTS[name];
+    const [input, options] = args as [RawEndpointInput | undefined, RequestOptions | undefined];
+    const response = await this.callRaw(name, input, options);
+
+    if (!definition.response) {
+      return undefined as EndpointResult<K>;
+    }
+    return this.validateResponse(
+      response.body,
+      definition.response,
+      definition.responseName ?? name
+    ) as EndpointResult<K>;
+  }
+
+  /**
+   * Call a catalog endpoint without validating the response (e.g. with `failSilently`)
+   */
+  protected async callRaw<T = unknown>(
+    name: EndpointName,
+    input?: RawEndpointInput,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    const definition: EndpointDefinition = ENDPOINTS[name];
+    const { body, query, ...pathParams } = input ?? {};
+
+    const params = query
+      ? (Object.fromEntries(
+          Object.entries(query).filter(([, value]) => value !== undefined)
+        ) as Record<string, string | number | boolean>)
+      : undefined;
+
+    return this.makeRequest<T>(definition.method, resolvePath(definition.path, pathParams), {
+      body: body as Record<string, unknown> | undefined,
+      params,
+      skipAuth: definition.auth === false,
+      bodySchema: definition.request && {
+        schema: definition.request,
+        name: definition.requestName ?? name,
+      },
+      ...options,
+    });
+  }
+
   /**
    * Perform a GET request
    */
@@ -174,78 +459,282 @@ export abstract class BaseApiClient {
   }
 
   /**
-   * Make HTTP request with error handling
+   * Make HTTP request through the interceptor chain
    */
   private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
+    method: HttpMethod,
     endpoint: string,
-    options?: RequestOptions
+    options?: RequestOptions,
+    reauthenticated: boolean = false
   ): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint, options?.params);
-    const headers = this.buildHeaders(options);
-    const startTime = Date.now();
+    if (this.tokenProvider && !options?.skipAuth) {
+      this.token = (await this.tokenProvider.getToken()) ?? this.token;
+    }
 
-    let response: APIResponse;
+    if (options?.bodySchema && this.validatePayloads && !options.skipBodyValidation) {
+      this.validateRequestBody(options.body, options.bodySchema, endpoint, method);
+    }
+
+    let context: RequestContext = {
+      method,
+      endpoint,
+      url: this.buildUrl(endpoint, options?.params),
+      headers: this.buildHeaders(options),
+      body: options?.body,
+      options: { ...options },
+    };
+
+    let response: ApiResponse<unknown>;
+    // Interceptors whose onRequest ran; only these see the response or error
+    const entered: ApiInterceptor[] = [];
 
     try {
-      const requestOptions: { headers: Record<string, string>; data?: Record<string, unknown> } = {
-        headers,
-      };
+      const intercepted = await this.runRequestInterceptors(context, entered);
+      context = intercepted.context;
+
+      if (intercepted.response) {
+        this.log({
+          method,
+          url: context.url,
+          status: intercepted.response.status,
+          duration: 0,
+          ...this.captureRequest(context),
+          ...this.captureResponse(intercepted.response),
+        });
+        response = intercepted.response;
+      } else {
+        response = await this.sendWithRetry(context);
+      }
 
-      if (options?.body) {
-        requestOptions.data = options.body;
+      response = await this.runResponseInterceptors(response, context, entered);
+    } catch (error) {
+      throw await this.runErrorInterceptors(error, context, entered);
+    }
+
+    // Re-login once with the token provider when the token was rejected
+    if (response.status === 401 && !reauthenticated && !options?.skipAuth) {
+      if (await this.reauthenticate()) {
+        return this.makeRequest<T>(method, endpoint, options, true);
       }
+    }
 
-      switch (method) {
-        case 'GET':
-          response = await this.request.get(url, requestOptions);
-          break;
-        case 'POST':
-          response = await this.request.post(url, requestOptions);
-          break;
-        case 'PUT':
-          response = await this.request.put(url, requestOptions);
-          break;
-        case 'DELETE':
-          response = await this.request.delete(url, requestOptions);
-          break;
-        case 'PATCH':
-          response = await this.request.patch(url, requestOptions);
-          break;
+    // Check for error status codes
+    if (response.status >= 400) {
+      if (options?.failSilently) {
+        return response as ApiResponse<T>;
       }
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      this.log({
+      const error = createApiError(response.status, endpoint, method, response.body).withRequest({
         method,
-        url,
-        duration,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        url: context.url,
+        headers: context.headers,
+        body: context.body,
       });
-      throw error;
+      throw await this.runErrorInterceptors(error, context, entered);
     }
 
-    const duration = Date.now() - startTime;
-    const status = response.status();
+    return response as ApiResponse<T>;
+  }
 
-    this.log({
+  /**
+   * Ask the token provider for a new token; false when none could be obtained
+   */
+  private async reauthenticate(): Promise<boolean> {
+    if (!this.tokenProvider) {
+      return false;
+    }
+
+    const rejected = this.token;
+    try {
+      const fresh = await this.tokenProvider.refresh(rejected);
+      if (fresh && fresh !== rejected) {
+        this.token = fresh;
+        return true;
+      }
+    } catch (error) {
+      console.warn(`Re-authentication failed: ${describeError(error)}`);
+    }
+    return false;
+  }
+
+  /**
+   * Send the request, retrying according to the resolved retry policy
+   */
+  private async sendWithRetry(context: RequestContext): Promise<ApiResponse<unknown>> {
+    const { method, url, endpoint } = context;
+    const { signal, totalTimeout } = context.options;
+    const timeout = context.options.timeout ?? this.defaultTimeout;
+    const policy = resolveRetryPolicy(this.retryPolicy, context.options.retry);
+    const canRetry = isRetryableMethod(policy, method);
+
+    const requestOptions: {
+      headers: Record<string, string>;
+      data?: Record<string, unknown>;
+      timeout?: number;
+    } = {
+      headers: context.headers,
+    };
+
+    if (context.body) {
+      requestOptions.data = context.body;
+    }
+
+    const firstAttemptTime = Date.now();
+    const deadline = totalTimeout !== undefined ? firstAttemptTime + totalTimeout : undefined;
+    const timeLeft = (): number | undefined =>
+      deadline !== undefined ? deadline - Date.now() : undefined;
+    const details = (attempt: number): Partial<NetworkErrorDetails> => ({
       method,
       url,
-      status,
-      duration,
+      attempts: attempt,
+      elapsedMs: Date.now() - firstAttemptTime,
     });
 
-    // Parse response body
-    const body = await this.parseResponseBody<T>(response);
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError(endpoint, signal.reason, details(attempt - 1));
+      }
+
+      const remaining = timeLeft();
+      if (remaining !== undefined && remaining <= 0) {
+        throw new DeadlineExceededError(endpoint, totalTimeout!, details(attempt - 1));
+      }
 
-    // Check for error status codes
-    if (status >= 400) {
-      if (options?.failSilently) {
-        return { status, body: body as T };
+      const isLastAttempt = !canRetry || attempt >= policy.maxAttempts;
+      const startTime = Date.now();
+      requestOptions.timeout = minDefined(timeout, remaining);
+
+      let response: APIResponse;
+
+      try {
+        response = await withAbort(this.sendRequest(method, url, requestOptions), signal);
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        const networkError = signal?.aborted
+          ? new RequestCancelledError(endpoint, signal.reason, details(attempt))
+          : createNetworkError(error, endpoint, details(attempt));
+        this.log({
+          method,
+          url,
+          duration,
+          attempt,
+          error: networkError.originalError?.message ?? networkError.message,
+          ...this.captureRequest(context),
+        });
+
+        if (
+          deadline !== undefined &&
+          Date.now() >= deadline &&
+          networkError instanceof NetworkTimeoutError
+        ) {
+          throw new DeadlineExceededError(
+            endpoint,
+            totalTimeout!,
+            details(attempt),
+            networkError.originalError
+          );
+        }
+        if (isLastAttempt || !isRetryableNetworkError(policy, networkError)) {
+          throw networkError;
+        }
+        await sleep(minDefined(computeBackoffDelay(policy, attempt), timeLeft())!, signal);
+        continue;
       }
-      throw createApiError(status, endpoint, method, body);
+
+      const duration = Date.now() - startTime;
+      const status = response.status();
+
+      const entry = { method, url, status, duration, attempt, ...this.captureRequest(context) };
+
+      if (!isLastAttempt && isRetryableStatus(policy, status)) {
+        this.log(entry);
+        const delay = computeBackoffDelay(policy, attempt, response.headers()['retry-after']);
+        await sleep(minDefined(delay, timeLeft())!, signal);
+        continue;
+      }
+
+      // Parse response body
+      const body = await this.parseResponseBody<unknown>(response);
+      const result = { status, body, headers: response.headers() };
+
+      this.log({ ...entry, ...this.captureResponse(result) });
+
+      return result;
     }
+  }
 
-    return { status, body: body as T };
+  /**
+   * Run onRequest hooks in registration order until one answers with a canned response.
+   * Every interceptor reached is added to `entered`.
+   */
+  private async runRequestInterceptors(
+    context: RequestContext,
+    entered: ApiInterceptor[]
+  ): Promise<{ context: RequestContext; response?: ApiResponse<unknown> }> {
+    let current = context;
+    for (const interceptor of [...this.interceptors]) {
+      entered.push(interceptor);
+      const result = await interceptor.onRequest?.(current);
+      if (!result) {
+        continue;
+      }
+      if (isInterceptedResponse(result)) {
+        return { context: current, response: result };
+      }
+      current = result;
+    }
+    return { context: current };
+  }
+
+  /**
+   * Run onResponse hooks of the entered interceptors in reverse order
+   */
+  private async runResponseInterceptors(
+    response: ApiResponse<unknown>,
+    context: RequestContext,
+    entered: ApiInterceptor[]
+  ): Promise<ApiResponse<unknown>> {
+    let current = response;
+    for (const interceptor of [...entered].reverse()) {
+      current = (await interceptor.onResponse?.(current, context)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Run onError hooks of the entered interceptors in reverse order and return the error to throw
+   */
+  private async runErrorInterceptors(
+    error: unknown,
+    context: RequestContext,
+    entered: ApiInterceptor[]
+  ): Promise<unknown> {
+    let current = error;
+    for (const interceptor of [...entered].reverse()) {
+      current = (await interceptor.onError?.(current, context)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Dispatch a single HTTP request through Playwright's request context
+   */
+  private async sendRequest(
+    method: HttpMethod,
+    url: string,
+    requestOptions: { headers: Record<string, string>; data?: Record<string, unknown> }
+  ): Promise<APIResponse> {
+    switch (method) {
+      case 'GET':
+        return this.request.get(url, requestOptions);
+      case 'POST':
+        return this.request.post(url, requestOptions);
+      case 'PUT':
+        return this.request.put(url, requestOptions);
+      case 'DELETE':
+        return this.request.delete(url, requestOptions);
+      case 'PATCH':
+        return this.request.patch(url, requestOptions);
+    }
   }
 
   /**
@@ -277,7 +766,10 @@ export abstract class BaseApiClient {
   }
 
   /**
-   * Validate response against a Zod schema
+   * Validate response against a Zod schema (and check it for drift in strict mode)
+   *
+   * @throws SchemaValidationError when the response does not match
+   * @throws SchemaDriftError in strict mode 'fail' when the response has unknown keys
    */
   protected validateResponse<T>(data: unknown, schema: z.ZodType<T>, schemaName: string): T {
     const result = schema.safeParse(data);
@@ -295,9 +787,37 @@ export abstract class BaseApiClient {
       );
     }
 
+    checkSchemaDrift(data, schema, schemaName, this.strictSchemas);
     return result.data;
   }
 
+  /**
+   * Validate an outgoing payload against its request schema
+   */
+  protected validateRequestBody(
+    body: unknown,
+    bodySchema: { schema: z.ZodType; name: string },
+    endpoint: string,
+    method: string
+  ): void {
+    const result = bodySchema.schema.safeParse(body);
+
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }));
+
+      throw new RequestValidationError(
+        `Request validation failed: ${issues.map((i) => `${i.path}: ${i.message}`).join('; ')}`,
+        bodySchema.name,
+        result.error.issues,
+        endpoint,
+        method
+      );
+    }
+  }
+
   /**
    * Validate response and return both status and validated data
    */
@@ -340,3 +860,50 @@ export abstract class BaseApiClient {
     return { status: response.status, data };
   }
 }
+
+/**
+ * Wait for the given number of milliseconds (returns early when the signal is aborted)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Reject as soon as the signal is aborted, without waiting for the promise
+ */
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The request is already on its way; its outcome no longer matters
+    promise.catch(() => undefined);
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    void promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Smallest of the defined values (undefined when none is defined)
+ */
+function minDefined(...values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
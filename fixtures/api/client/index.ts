@@ -1,3 +1,8 @@
 export * from './base-api-client';
 export * from './article-api-client';
 export * from './user-api-client';
+export * from './retry-policy';
+export * from './interceptors';
+export * from './tag-api-client';
+export * from './token-provider';
+export * from './recording';
@@ -0,0 +1,135 @@
+/**
+ * API Client Interceptors
+ *
+ * Middleware hooks that run around every request made by a BaseApiClient:
+ * - onRequest: mutate URL, headers or body, or short-circuit with a canned response
+ * - onResponse: inspect or rewrite the response before it reaches the caller
+ * - onError: transform transport and HTTP errors before they are thrown
+ *
+ * Request hooks run in registration order; response and error hooks run in
+ * reverse order, so the first registered interceptor wraps all others. A canned
+ * response unwinds from the interceptor that returned it: later interceptors
+ * never see the request, its response or its error.
+ */
+
+import { randomUUID } from 'crypto';
+import type { RequestOptions } from './base-api-client';
+import type { HttpMethod } from './retry-policy';
+import { ApiResponse } from '../types';
+
+/**
+ * Outgoing request as seen by interceptors
+ */
+export interface RequestContext {
+  method: HttpMethod;
+  /** Endpoint as passed by the client method (used in error messages) */
+  endpoint: string;
+  /** Fully resolved URL including query parameters */
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+  /** Original per-call options (read-only) */
+  readonly options: Readonly<RequestOptions>;
+}
+
+/**
+ * Response passed through the interceptor chain
+ */
+export type InterceptedResponse = ApiResponse<unknown>;
+
+export interface ApiInterceptor {
+  /** Optional name, useful when debugging the chain */
+  name?: string;
+  /**
+   * Called before the request is sent.
+   * Return nothing to keep the (possibly mutated) context, a new context to replace it,
+   * or a response to skip the network call entirely.
+   */
+  onRequest?: (
+    request: RequestContext
+  ) =>
+    | RequestContext
+    | InterceptedResponse
+    | void
+    | Promise<RequestContext | InterceptedResponse | void>;
+  /**
+   * Called with the final response (after retries).
+   * Return nothing to keep it or a new response to replace it.
+   */
+  onResponse?: (
+    response: InterceptedResponse,
+    request: RequestContext
+  ) => InterceptedResponse | void | Promise<InterceptedResponse | void>;
+  /**
+   * Called before an error is thrown to the caller.
+   * Return (or resolve to) nothing to keep it, or a new error to replace it.
+   */
+  onError?: (error: unknown, request: RequestContext) => unknown;
+}
+
+/**
+ * Check whether an onRequest result is a canned response
+ */
+export function isInterceptedResponse(
+  value: RequestContext | InterceptedResponse
+): value is InterceptedResponse {
+  return 'status' in value;
+}
+
+/**
+ * Build a canned response for short-circuiting requests
+ */
+export function respondWith(
+  status: number,
+  body: unknown = null,
+  headers: Record<string, string> = { 'content-type': 'application/json' }
+): InterceptedResponse {
+  return { status, body, headers };
+}
+
+// ==================== Built-in Interceptors ====================
+
+/**
+ * Add static headers to every request
+ */
+export function headersInterceptor(headers: Record<string, string>): ApiInterceptor {
+  return {
+    name: 'headers',
+    onRequest: (request): void => {
+      Object.assign(request.headers, headers);
+    },
+  };
+}
+
+/**
+ * Add a unique correlation ID header to every request
+ */
+export function correlationIdInterceptor(
+  headerName: string = 'X-Correlation-Id',
+  generate: () => string = randomUUID
+): ApiInterceptor {
+  return {
+    name: 'correlation-id',
+    onRequest: (request): void => {
+      request.headers[headerName] ??= generate();
+    },
+  };
+}
+
+/**
+ * Replace the default `Authorization: Token ...` header with a custom scheme
+ */
+export function authInterceptor(
+  getToken: () => string | undefined,
+  scheme: string = 'Bearer'
+): ApiInterceptor {
+  return {
+    name: 'auth',
+    onRequest: (request): void => {
+      const token = getToken();
+      if (token && !request.options.skipAuth) {
+        request.headers['Authorization'] = `${scheme} ${token}`;
+      }
+    },
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Record & Replay
+ *
+ * Interceptor that records real API traffic to fixture files and replays it
+ * later without touching the network. Exchanges are keyed by method,
+ * normalized URL and a hash of the normalized body, and stored per test
+ * (`<dir>/<spec path>/<test title>.json`) in the order they happened.
+ *
+ * Volatile values (tokens, passwords, ISO dates, epoch-ms timestamps, random
+ * slug suffixes) are replaced with placeholders when recording, so fixtures are
+ * stable across runs and hold no secrets; on replay the placeholders are
+ * filled with values from the current request or freshly generated ones.
+ *
+ * Select the mode with API_RECORD_MODE=record|replay (see config/) or per
+ * client with the `recording` option.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { test } from '@playwright/test';
+import { config } from '../../../config';
+import { RecordingNotFoundError } from '../errors';
+import { ApiInterceptor, InterceptedResponse, RequestContext } from './interceptors';
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * Volatile value replaced by a placeholder in recordings
+ */
+export interface VolatileRule {
+  placeholder: string;
+  pattern: RegExp;
+  /** Value substituted on replay when the current request holds none */
+  generate: () => string;
+}
+
+export interface RecordingOptions {
+  mode: RecordMode;
+  /** Directory holding the fixture files */
+  dir: string;
+  /** Volatile values to normalize (default: DEFAULT_VOLATILE_RULES) */
+  rules?: VolatileRule[];
+}
+
+/**
+ * One recorded request/response pair (normalized)
+ */
+export interface RecordedExchange {
+  key: string;
+  request: { method: string; url: string; body?: unknown };
+  response: { status: number; headers: Record<string, string>; body: unknown };
+}
+
+export interface RecordingFile {
+  test: string;
+  exchanges: RecordedExchange[];
+}
+
+export const DEFAULT_VOLATILE_RULES: VolatileRule[] = [
+  {
+    placeholder: '<token>',
+    pattern: /eyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    generate: () => 'eyJhbGciOiJub25lIn0.eyJyZXBsYXkiOnRydWV9.replayed',
+  },
+  {
+    // Matched on serialized JSON bodies, so credentials never reach the fixture files
+    placeholder: '"password":"<password>"',
+    pattern: /"password":"(?:[^"\\]|\\.)*"/g,
+    generate: () => '"password":""',
+  },
+  {
+    placeholder: '<datetime>',
+    pattern: /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})/g,
+    generate: () => new Date().toISOString(),
+  },
+  {
+    placeholder: '<timestamp>',
+    pattern: /(?<!\d)1\d{12}(?!\d)/g,
+    generate: () => String(Date.now()),
+  },
+  {
+    // Random suffix the backend appends to slugs (6 base36 chars, at least one digit)
+    placeholder: '-<slug-id>',
+    pattern: /-(?=[a-z]*\d)[0-9a-z]{6}(?=$|[/?"])/g,
+    generate: () => '-r3play',
+  },
+];
+
+/**
+ * Recording options from the env config (API_RECORD_MODE, API_RECORDINGS_DIR)
+ */
+export function recordingFromConfig(): RecordingOptions {
+  return { mode: config.apiRecordMode, dir: config.apiRecordingsDir };
+}
+
+// ==================== Normalization ====================
+
+/**
+ * Replace volatile values in a string with their placeholders
+ */
+export function normalizeText(
+  text: string,
+  rules: VolatileRule[] = DEFAULT_VOLATILE_RULES
+): string {
+  return rules.reduce((current, rule) => current.replace(rule.pattern, rule.placeholder), text);
+}
+
+/**
+ * Replace volatile values in any JSON value
+ */
+export function normalizeValue<T>(value: T, rules: VolatileRule[] = DEFAULT_VOLATILE_RULES): T {
+  return value === undefined
+    ? value
+    : (JSON.parse(normalizeText(JSON.stringify(value), rules)) as T);
+}
+
+/**
+ * Origin-independent URL: decoded path plus sorted query, with volatile values normalized
+ */
+export function normalizeUrl(url: string, rules: VolatileRule[] = DEFAULT_VOLATILE_RULES): string {
+  const parsed = new URL(url);
+  const query = [...parsed.searchParams.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const target = `${decodeURIComponent(parsed.pathname)}${query ? `?${query}` : ''}`;
+  return normalizeText(target, rules);
+}
+
+/**
+ * JSON with sorted keys, so equal bodies hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, nested]) => nested !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Recording key: method, normalized URL and a hash of the normalized body
+ */
+export function recordingKey(
+  method: string,
+  url: string,
+  body?: unknown,
+  rules: VolatileRule[] = DEFAULT_VOLATILE_RULES
+): string {
+  const hash =
+    body === undefined || body === null
+      ? '-'
+      : crypto
+          .createHash('sha256')
+          .update(stableStringify(normalizeValue(body, rules)))
+          .digest('hex')
+          .slice(0, 16);
+  return `${method} ${normalizeUrl(url, rules)} ${hash}`;
+}
+
+// ==================== Fixture Files ====================
+
+/**
+ * Fixture file of the running test (`_global.json` outside of tests).
+ * `run` identifies the test attempt, so repeats and retries start over.
+ */
+function currentRecordingFile(dir: string): { file: string; test: string; run: string } {
+  try {
+    const info = test.info();
+    const spec = path.relative(info.project.testDir, info.file).replace(/\.[jt]s$/, '');
+    const title = info.titlePath.slice(1).join(' › ');
+    const name = title.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return {
+      file: path.join(dir, spec, `${name}.json`),
+      test: title,
+      run: `${info.testId}#${info.repeatEachIndex}#${info.retry}`,
+    };
+  } catch {
+    return { file: path.join(dir, '_global.json'), test: '(outside of tests)', run: '' };
+  }
+}
+
+/**
+ * Fixture files of the worker: written as exchanges are recorded, read once for replay
+ */
+class RecordingStore {
+  private files = new Map<string, RecordingFile>();
+  private consumed = new Map<string, Set<number>>();
+  private knownValues = new Map<string, Map<string, string>>();
+  private runs = new Map<string, string>();
+
+  record(file: string, run: string, testTitle: string, exchange: RecordedExchange): void {
+    const newRun = this.startRun(file, run);
+    let recording = this.files.get(file);
+    if (!recording || newRun) {
+      // First exchange of this run replaces the previous recording
+      recording = { test: testTitle, exchanges: [] };
+      this.files.set(file, recording);
+    }
+    recording.exchanges.push(exchange);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(recording, null, 2));
+  }
+
+  /**
+   * Next unused exchange with the key; falls back to the same method and URL
+   * when the body differs (e.g. random test data)
+   */
+  take(file: string, run: string, key: string): RecordedExchange | undefined {
+    this.startRun(file, run);
+    const exchanges = this.load(file);
+    const consumed = this.consumed.get(file) ?? new Set<number>();
+    this.consumed.set(file, consumed);
+
+    const withoutBody = key.slice(0, key.lastIndexOf(' '));
+    const unused = exchanges
+      .map((exchange, index) => ({ exchange, index }))
+      .filter(({ index }) => !consumed.has(index));
+    const match =
+      unused.find(({ exchange }) => exchange.key === key) ??
+      unused.find(({ exchange }) => exchange.key.startsWith(`${withoutBody} `));
+    if (match) {
+      consumed.add(match.index);
+    }
+    return match?.exchange;
+  }
+
+  /**
+   * Recorded → current values seen so far in a replayed fixture file
+   */
+  known(file: string): Map<string, string> {
+    const known = this.knownValues.get(file) ?? new Map<string, string>();
+    this.knownValues.set(file, known);
+    return known;
+  }
+
+  /**
+   * Forget what an earlier attempt (repeat or retry) of the test consumed.
+   * Returns true when `run` is a new attempt.
+   */
+  private startRun(file: string, run: string): boolean {
+    if (this.runs.get(file) === run) {
+      return false;
+    }
+    this.runs.set(file, run);
+    this.consumed.delete(file);
+    this.knownValues.delete(file);
+    return true;
+  }
+
+  private load(file: string): RecordedExchange[] {
+    let recording = this.files.get(file);
+    if (!recording) {
+      recording = fs.existsSync(file)
+        ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as RecordingFile)
+        : { test: '', exchanges: [] };
+      this.files.set(file, recording);
+    }
+    return recording.exchanges;
+  }
+}
+
+const store = new RecordingStore();
+
+// ==================== Replay ====================
+
+/**
+ * Collect recorded → current pairs for string values that differ at the same path
+ */
+function collectChangedValues(
+  recorded: unknown,
+  current: unknown,
+  pairs: Map<string, string>
+): void {
+  if (typeof recorded === 'string' && typeof current === 'string') {
+    if (recorded !== current) {
+      pairs.set(recorded, current);
+    }
+  } else if (recorded && current && typeof recorded === 'object' && typeof current === 'object') {
+    for (const [key, value] of Object.entries(recorded as Record<string, unknown>)) {
+      collectChangedValues(value, (current as Record<string, unknown>)[key], pairs);
+    }
+  }
+}
+
+/**
+ * Rebuild a recorded response for the current request. Values the test sent
+ * (in this or an earlier request) are swapped for the current ones, and
+ * remaining placeholders are filled from the current request or generated.
+ *
+ * @param known - recorded → current values of the test so far; extended in place
+ */
+function restoreResponse(
+  exchange: RecordedExchange,
+  request: RequestContext,
+  rules: VolatileRule[],
+  known: Map<string, string>
+): InterceptedResponse {
+  collectChangedValues(exchange.request.body, request.body, known);
+
+  // Body first: on updates it holds newer values than the URL
+  const source = `${JSON.stringify(request.body ?? null)} ${decodeURIComponent(request.url)}`;
+  const fill = (value: string): string => {
+    const filled = rules.reduce((text, rule) => {
+      if (!text.includes(rule.placeholder)) {
+        return text;
+      }
+      const current = source.match(new RegExp(rule.pattern.source))?.[0];
+      return text.split(rule.placeholder).join(current ?? rule.generate());
+    }, value);
+    if (filled !== value) {
+      known.set(value, filled);
+    }
+    return filled;
+  };
+
+  const body = JSON.stringify(exchange.response.body, (_key, value: unknown) =>
+    typeof value === 'string' ? (known.get(value) ?? fill(value)) : value
+  );
+
+  return {
+    status: exchange.response.status,
+    headers: exchange.response.headers,
+    body: body === undefined ? undefined : (JSON.parse(body) as unknown),
+  };
+}
+
+// ==================== Interceptor ====================
+
+/**
+ * Record every exchange of a client, or answer every request from the recordings
+ *
+ * @example
+ * const client = new ArticleApiClient(request, apiUrl, token, {
+ *   recording: { mode: 'replay', dir: 'recordings' },
+ * });
+ */
+export function recordReplayInterceptor(options: RecordingOptions): ApiInterceptor {
+  const rules = options.rules ?? DEFAULT_VOLATILE_RULES;
+
+  return {
+    name: 'record-replay',
+    onRequest: (request): InterceptedResponse | void => {
+      if (options.mode !== 'replay') {
+        return;
+      }
+      const { file, run } = currentRecordingFile(options.dir);
+      const key = recordingKey(request.method, request.url, request.body, rules);
+      const exchange = store.take(file, run, key);
+      if (!exchange) {
+        throw new RecordingNotFoundError(key, file);
+      }
+      return restoreResponse(exchange, request, rules, store.known(file));
+    },
+    onResponse: (response, request): void => {
+      if (options.mode !== 'record') {
+        return;
+      }
+      const { file, run, test: testTitle } = currentRecordingFile(options.dir);
+      store.record(file, run, testTitle, {
+        key: recordingKey(request.method, request.url, request.body, rules),
+        request: {
+          method: request.method,
+          url: normalizeUrl(request.url, rules),
+          body: normalizeValue(request.body, rules),
+        },
+        response: {
+          status: response.status,
+          headers: { 'content-type': response.headers?.['content-type'] ?? 'application/json' },
+          body: normalizeValue(response.body, rules),
+        },
+      });
+    },
+  };
+}
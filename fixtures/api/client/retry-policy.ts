@@ -0,0 +1,136 @@
+/**
+ * Retry Policy
+ *
+ * Describes when and how a failed API request is retried:
+ * - Maximum number of attempts
+ * - Exponential backoff with optional jitter
+ * - Retryable HTTP status codes and network errors
+ * - Idempotent-method-only retries by default
+ */
+
+import { NetworkError } from '../errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each attempt */
+  backoffFactor: number;
+  /** Randomize delays ("full jitter") to avoid retry storms */
+  jitter: boolean;
+  /** Status codes that trigger a retry */
+  retryableStatuses: number[];
+  /** Retry on transport failures (connection reset, DNS, timeouts) */
+  retryOnNetworkError: boolean;
+  /** Also retry non-idempotent methods (POST, PATCH) */
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Default policy: up to 3 attempts for idempotent requests on gateway/throttling errors
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  backoffFactor: 2,
+  jitter: true,
+  retryableStatuses: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Policy that never retries
+ */
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+/**
+ * Override that also retries creates. Only for payloads with a unique title:
+ * if the server stored an article before the gateway failed, the retry leaves
+ * a separate, timestamp-prefixed duplicate that the orphan sweeper removes.
+ */
+export const UNIQUE_CREATE_RETRY: Partial<RetryPolicy> = {
+  retryNonIdempotent: true,
+};
+
+const IDEMPOTENT_METHODS: readonly HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+/**
+ * Merge a base policy with per-client or per-call overrides
+ */
+export function resolveRetryPolicy(
+  base: RetryPolicy,
+  override?: Partial<RetryPolicy> | false
+): RetryPolicy {
+  if (override === false) {
+    return { ...base, maxAttempts: 1 };
+  }
+  return { ...base, ...override };
+}
+
+/**
+ * Check whether the policy allows retrying the given method
+ */
+export function isRetryableMethod(policy: RetryPolicy, method: HttpMethod): boolean {
+  return policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method);
+}
+
+/**
+ * Check whether a response status should be retried
+ */
+export function isRetryableStatus(policy: RetryPolicy, status: number): boolean {
+  return policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Check whether a transport error should be retried
+ */
+export function isRetryableNetworkError(policy: RetryPolicy, error: unknown): boolean {
+  return policy.retryOnNetworkError && error instanceof NetworkError && error.isTransient;
+}
+
+/**
+ * Compute the delay before the next attempt (1-based attempt that just failed)
+ *
+ * A `Retry-After` value from the server takes precedence when present.
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterHeader?: string
+): number {
+  const retryAfterMs = parseRetryAfter(retryAfterHeader);
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return policy.jitter ? Math.floor(Math.random() * capped) : capped;
+}
+
+/**
+ * Milliseconds to wait for a `Retry-After` header, in either of its forms:
+ * delay seconds (`120`) or an HTTP-date (`Wed, 21 Oct 2015 07:28:00 GMT`)
+ */
+function parseRetryAfter(header: string | undefined): number | undefined {
+  const value = header?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -0,0 +1,39 @@
+/**
+ * Tag API Client
+ *
+ * Provides type-safe access to the popular tags list
+ * with built-in schema validation and error handling.
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientOptions, BaseApiClient } from '../client/base-api-client';
+
+/**
+ * Tag API Client for the popular tags endpoint
+ */
+export class TagApiClient extends BaseApiClient {
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
+    super(request, baseUrl, token, options);
+  }
+
+  /**
+   * Get the list of popular tags
+   */
+  async getTags(): Promise<string[]> {
+    const { tags } = await this.call('tags.list');
+    return tags;
+  }
+
+  /**
+   * Check whether a tag is in the popular tags list (case-insensitive)
+   */
+  async hasTag(tag: string): Promise<boolean> {
+    const tags = await this.getTags();
+    return tags.some((t) => t.toLowerCase() === tag.toLowerCase());
+  }
+}
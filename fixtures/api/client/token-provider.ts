@@ -0,0 +1,51 @@
+/**
+ * Token Provider
+ *
+ * Source of authentication tokens shared by several clients. A client
+ * configured with a provider asks it for the token before every request
+ * and, when the API answers 401, asks it once to re-authenticate before
+ * surfacing the error.
+ */
+
+export interface TokenProvider {
+  /** Current token; implementations may refresh it shortly before it expires */
+  getToken(): Promise<string | undefined>;
+  /**
+   * Re-authenticate after the API rejected `rejectedToken`.
+   * Resolves to the new token, or undefined when no new token can be obtained.
+   */
+  refresh(rejectedToken?: string): Promise<string | undefined>;
+  /** Accept a token obtained outside the provider (e.g. by a login or profile update) */
+  setToken?(token: string): void;
+}
+
+/**
+ * Expiry of a JWT in epoch milliseconds (undefined when the token is not a JWT or has no `exp`)
+ */
+export function decodeJwtExpiry(token: string): number | undefined {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as {
+      exp?: unknown;
+    };
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a token expires within `withinMs` (tokens without a known expiry never do)
+ */
+export function isTokenExpiring(
+  token: string,
+  withinMs: number,
+  now: number = Date.now()
+): boolean {
+  const expiry = decodeJwtExpiry(token);
+  return expiry !== undefined && expiry - now <= withinMs;
+}
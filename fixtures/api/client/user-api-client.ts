@@ -2,29 +2,34 @@
  * User API Client
  *
  * Provides type-safe methods for user authentication and profile operations
- * with built-in schema validation and error handling.
+ * with built-in schema validation and error handling, driven by the
+ * typed endpoint catalog (see `ENDPOINTS`).
+ * Login/register payloads are validated before sending; the `*WithResponse`
+ * variants exist for negative testing and send payloads unvalidated.
  */
 
 import { APIRequestContext } from '@playwright/test';
-import { BaseApiClient } from '../client/base-api-client';
-import { UserResponseSchema, ProfileResponseSchema } from '../schemas/api-schemas';
+import { ApiClientOptions, BaseApiClient, PayloadOptions } from '../client/base-api-client';
 import {
   User,
   UserResponse,
   Profile,
-  ProfileResponse,
   LoginPayload,
   RegisterPayload,
   UpdateUserPayload,
 } from '../types';
-import { API_ENDPOINTS } from '../../../test-data/constants';
 
 /**
  * User API Client for authentication and profile management
  */
 export class UserApiClient extends BaseApiClient {
-  constructor(request: APIRequestContext, baseUrl: string, token?: string) {
-    super(request, baseUrl, token);
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
+    super(request, baseUrl, token, options);
   }
 
   // ==================== Authentication ====================
@@ -32,22 +37,22 @@ export class UserApiClient extends BaseApiClient {
   /**
    * Login with email and password
    */
-  async login(email: string, password: string): Promise<User> {
+  async login(email: string, password: string, options?: PayloadOptions): Promise<User> {
     const payload: LoginPayload = {
       user: { email, password },
     };
 
-    const { data } = await this.postValidated<UserResponse>(
-      API_ENDPOINTS.users.login,
-      UserResponseSchema,
-      'UserResponse',
-      { body: payload as unknown as Record<string, unknown>, skipAuth: true }
+    // Login has no side effects, so it is safe to retry despite being a POST
+    const { user } = await this.call(
+      'users.login',
+      { body: payload },
+      { retry: { retryNonIdempotent: true }, ...options }
     );
 
     // Auto-set token for subsequent requests
-    this.setToken(data.user.token);
+    this.setToken(user.token);
 
-    return data.user;
+    return user;
   }
 
   /**
@@ -61,11 +66,11 @@ export class UserApiClient extends BaseApiClient {
       user: { email, password },
     };
 
-    const response = await this.post<UserResponse>(API_ENDPOINTS.users.login, {
-      body: payload as unknown as Record<string, unknown>,
-      skipAuth: true,
-      failSilently: true,
-    });
+    const response = await this.callRaw<UserResponse>(
+      'users.login',
+      { body: payload },
+      { failSilently: true, skipBodyValidation: true }
+    );
 
     return { status: response.status, body: response.body };
   }
@@ -73,22 +78,22 @@ export class UserApiClient extends BaseApiClient {
   /**
    * Register a new user
    */
-  async register(username: string, email: string, password: string): Promise<User> {
+  async register(
+    username: string,
+    email: string,
+    password: string,
+    options?: PayloadOptions
+  ): Promise<User> {
     const payload: RegisterPayload = {
       user: { username, email, password },
     };
 
-    const { data } = await this.postValidated<UserResponse>(
-      API_ENDPOINTS.users.register,
-      UserResponseSchema,
-      'UserResponse',
-      { body: payload as unknown as Record<string, unknown>, skipAuth: true }
-    );
+    const { user } = await this.call('users.register', { body: payload }, options);
 
     // Auto-set token for subsequent requests
-    this.setToken(data.user.token);
+    this.setToken(user.token);
 
-    return data.user;
+    return user;
   }
 
   /**
@@ -103,11 +108,11 @@ export class UserApiClient extends BaseApiClient {
       user: { username, email, password },
     };
 
-    const response = await this.post<UserResponse>(API_ENDPOINTS.users.register, {
-      body: payload as unknown as Record<string, unknown>,
-      skipAuth: true,
-      failSilently: true,
-    });
+    const response = await this.callRaw<UserResponse>(
+      'users.register',
+      { body: payload },
+      { failSilently: true, skipBodyValidation: true }
+    );
 
     return { status: response.status, body: response.body };
   }
@@ -118,33 +123,24 @@ export class UserApiClient extends BaseApiClient {
    * Get current user (requires auth)
    */
   async getCurrentUser(): Promise<User> {
-    const { data } = await this.getValidated<UserResponse>(
-      API_ENDPOINTS.users.current,
-      UserResponseSchema,
-      'UserResponse'
-    );
-    return data.user;
+    const { user } = await this.call('users.current');
+    return user;
   }
 
   /**
    * Update current user
    */
-  async updateUser(updates: UpdateUserPayload['user']): Promise<User> {
+  async updateUser(updates: UpdateUserPayload['user'], options?: PayloadOptions): Promise<User> {
     const payload: UpdateUserPayload = { user: updates };
 
-    const { data } = await this.putValidated<UserResponse>(
-      API_ENDPOINTS.users.current,
-      UserResponseSchema,
-      'UserResponse',
-      { body: payload as unknown as Record<string, unknown> }
-    );
+    const { user } = await this.call('users.update', { body: payload }, options);
 
     // Update token if new one is returned
-    if (data.user.token) {
-      this.setToken(data.user.token);
+    if (user.token) {
+      this.setToken(user.token);
     }
 
-    return data.user;
+    return user;
   }
 
   // ==================== Profiles ====================
@@ -153,36 +149,23 @@ export class UserApiClient extends BaseApiClient {
    * Get user profile by username
    */
   async getProfile(username: string): Promise<Profile> {
-    const { data } = await this.getValidated<ProfileResponse>(
-      API_ENDPOINTS.profiles.byUsername(username),
-      ProfileResponseSchema,
-      'ProfileResponse'
-    );
-    return data.profile;
+    const { profile } = await this.call('profiles.get', { username });
+    return profile;
   }
 
   /**
    * Follow a user
    */
   async followUser(username: string): Promise<Profile> {
-    const { data } = await this.postValidated<ProfileResponse>(
-      API_ENDPOINTS.profiles.follow(username),
-      ProfileResponseSchema,
-      'ProfileResponse'
-    );
-    return data.profile;
+    const { profile } = await this.call('profiles.follow', { username });
+    return profile;
   }
 
   /**
    * Unfollow a user
    */
   async unfollowUser(username: string): Promise<Profile> {
-    const response = await this.delete<ProfileResponse>(API_ENDPOINTS.profiles.follow(username));
-    const validated = this.validateResponse(
-      response.body,
-      ProfileResponseSchema,
-      'ProfileResponse'
-    );
-    return validated.profile;
+    const { profile } = await this.call('profiles.unfollow', { username });
+    return profile;
   }
 }
@@ -0,0 +1,235 @@
+/**
+ * Typed Endpoint Catalog
+ *
+ * Single source of truth for the Conduit API surface. Each entry declares
+ * its HTTP method, path template (`:param` placeholders), request schema and
+ * response schema. BaseApiClient.call() derives parameter, body and result
+ * types from these entries and validates both directions at runtime.
+ *
+ * @example
+ * const article = await client.call('articles.favorite', { slug });
+ */
+
+import { z } from 'zod';
+import type { HttpMethod } from '../client/retry-policy';
+import {
+  ArticleResponseSchema,
+  ArticlesResponseSchema,
+  CommentResponseSchema,
+  CommentsResponseSchema,
+  CreateArticlePayloadSchema,
+  CreateCommentPayloadSchema,
+  LoginPayloadSchema,
+  ProfileResponseSchema,
+  RegisterPayloadSchema,
+  TagsResponseSchema,
+  UpdateArticlePayloadSchema,
+  UpdateUserPayloadSchema,
+  UserResponseSchema,
+} from '../schemas/api-schemas';
+
+export interface EndpointDefinition {
+  method: HttpMethod;
+  /** Path relative to the API base URL, with `:name` placeholders */
+  path: string;
+  /** Schema the request body must satisfy */
+  request?: z.ZodType;
+  requestName?: string;
+  /** Schema the response body is validated against */
+  response?: z.ZodType;
+  responseName?: string;
+  /** Send the Authorization header (default: true) */
+  auth?: boolean;
+}
+
+export const ENDPOINTS = {
+  // ==================== Users ====================
+  'users.login': {
+    method: 'POST',
+    path: 'api/users/login',
+    request: LoginPayloadSchema,
+    requestName: 'LoginPayload',
+    response: UserResponseSchema,
+    responseName: 'UserResponse',
+    auth: false,
+  },
+  'users.register': {
+    method: 'POST',
+    path: 'api/users',
+    request: RegisterPayloadSchema,
+    requestName: 'RegisterPayload',
+    response: UserResponseSchema,
+    responseName: 'UserResponse',
+    auth: false,
+  },
+  'users.current': {
+    method: 'GET',
+    path: 'api/user',
+    response: UserResponseSchema,
+    responseName: 'UserResponse',
+  },
+  'users.update': {
+    method: 'PUT',
+    path: 'api/user',
+    request: UpdateUserPayloadSchema,
+    requestName: 'UpdateUserPayload',
+    response: UserResponseSchema,
+    responseName: 'UserResponse',
+  },
+
+  // ==================== Profiles ====================
+  'profiles.get': {
+    method: 'GET',
+    path: 'api/profiles/:username',
+    response: ProfileResponseSchema,
+    responseName: 'ProfileResponse',
+  },
+  'profiles.follow': {
+    method: 'POST',
+    path: 'api/profiles/:username/follow',
+    response: ProfileResponseSchema,
+    responseName: 'ProfileResponse',
+  },
+  'profiles.unfollow': {
+    method: 'DELETE',
+    path: 'api/profiles/:username/follow',
+    response: ProfileResponseSchema,
+    responseName: 'ProfileResponse',
+  },
+
+  // ==================== Articles ====================
+  'articles.list': {
+    method: 'GET',
+    path: 'api/articles',
+    response: ArticlesResponseSchema,
+    responseName: 'ArticlesResponse',
+  },
+  'articles.feed': {
+    method: 'GET',
+    path: 'api/articles/feed',
+    response: ArticlesResponseSchema,
+    responseName: 'ArticlesResponse',
+  },
+  'articles.create': {
+    method: 'POST',
+    path: 'api/articles/',
+    request: CreateArticlePayloadSchema,
+    requestName: 'CreateArticlePayload',
+    response: ArticleResponseSchema,
+    responseName: 'ArticleResponse',
+  },
+  'articles.get': {
+    method: 'GET',
+    path: 'api/articles/:slug',
+    response: ArticleResponseSchema,
+    responseName: 'ArticleResponse',
+  },
+  'articles.update': {
+    method: 'PUT',
+    path: 'api/articles/:slug',
+    request: UpdateArticlePayloadSchema,
+    requestName: 'UpdateArticlePayload',
+    response: ArticleResponseSchema,
+    responseName: 'ArticleResponse',
+  },
+  'articles.delete': {
+    method: 'DELETE',
+    path: 'api/articles/:slug',
+  },
+  'articles.favorite': {
+    method: 'POST',
+    path: 'api/articles/:slug/favorite',
+    response: ArticleResponseSchema,
+    responseName: 'ArticleResponse',
+  },
+  'articles.unfavorite': {
+    method: 'DELETE',
+    path: 'api/articles/:slug/favorite',
+    response: ArticleResponseSchema,
+    responseName: 'ArticleResponse',
+  },
+
+  // ==================== Comments ====================
+  'comments.list': {
+    method: 'GET',
+    path: 'api/articles/:slug/comments',
+    response: CommentsResponseSchema,
+    responseName: 'CommentsResponse',
+  },
+  'comments.create': {
+    method: 'POST',
+    path: 'api/articles/:slug/comments',
+    request: CreateCommentPayloadSchema,
+    requestName: 'CreateCommentPayload',
+    response: CommentResponseSchema,
+    responseName: 'CommentResponse',
+  },
+  'comments.delete': {
+    method: 'DELETE',
+    path: 'api/articles/:slug/comments/:id',
+  },
+
+  // ==================== Tags ====================
+  'tags.list': {
+    method: 'GET',
+    path: 'api/tags',
+    response: TagsResponseSchema,
+    responseName: 'TagsResponse',
+  },
+} as const satisfies Record<string, EndpointDefinition>;
+
+// ==================== Type Inference ====================
+
+export type EndpointName = keyof typeof ENDPOINTS;
+
+type Endpoint<K extends EndpointName> = (typeof ENDPOINTS)[K];
+
+/**
+ * Extract `:param` names from a path template
+ */
+type PathParamNames<P extends string> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParamNames<Rest>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+type BodyInput<E> = E extends { request: z.ZodType } ? { body: z.input<E['request']> } : unknown;
+
+/**
+ * Input accepted by `call()` for an endpoint: path params, body (when the
+ * endpoint has a request schema) and optional query parameters
+ */
+export type EndpointInput<K extends EndpointName> = PathParams<Endpoint<K>['path']> &
+  BodyInput<Endpoint<K>> & {
+    query?: Record<string, string | number | boolean | undefined>;
+  };
+
+/**
+ * Validated result of `call()` for an endpoint (void when there is no response schema)
+ */
+export type EndpointResult<K extends EndpointName> =
+  Endpoint<K> extends { response: z.ZodType } ? z.output<Endpoint<K>['response']> : void;
+
+/**
+ * Untyped view of an endpoint input, used by the runtime implementation
+ */
+export interface RawEndpointInput {
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  [param: string]: unknown;
+}
+
+/**
+ * Substitute `:param` placeholders with URL-encoded values
+ */
+export function resolvePath(path: string, params: Record<string, unknown> = {}): string {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter '${name}' for '${path}'`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
@@ -6,11 +6,15 @@
  */
 
 import { ErrorResponse, ValidationErrors } from '../types';
+import { ReplayableRequest, ReplayExportOptions, toCurlCommand } from '../logging/curl-export';
 
 /**
  * Base class for all API errors
  */
 export class ApiError extends Error {
+  /** Request that produced the error, when known (used for replay exports) */
+  public request?: ReplayableRequest;
+
   constructor(
     message: string,
     public readonly status: number,
@@ -24,10 +28,27 @@ export class ApiError extends Error {
   }
 
   /**
-   * Format error for logging
+   * Attach the originating request
    */
-  toLogString(): string {
-    return `[${this.name}] ${this.method} ${this.endpoint} - ${this.status}: ${this.message}`;
+  withRequest(request: ReplayableRequest): this {
+    this.request = request;
+    return this;
+  }
+
+  /**
+   * Export the originating request as a curl command (secrets masked by default)
+   */
+  toCurl(options?: ReplayExportOptions): string | undefined {
+    return this.request && toCurlCommand(this.request, options);
+  }
+
+  /**
+   * Format error for logging, optionally with a curl command to reproduce it
+   */
+  toLogString(options?: { includeCurl?: boolean } & ReplayExportOptions): string {
+    const line = `[${this.name}] ${this.method} ${this.endpoint} - ${this.status}: ${this.message}`;
+    const curl = options?.includeCurl ? this.toCurl(options) : undefined;
+    return curl ? `${line}\nReproduce with:\n${curl}` : line;
   }
 }
 
@@ -127,18 +148,270 @@ export class SchemaValidationError extends Error {
 }
 
 /**
- * Error for network/connection issues
+ * Error for responses with keys their schema does not declare (strict mode 'fail')
+ */
+export class SchemaDriftError extends SchemaValidationError {
+  constructor(
+    schemaName: string,
+    public readonly unknownKeys: string[]
+  ) {
+    super(
+      `Unknown keys: ${unknownKeys.join(', ')}`,
+      schemaName,
+      unknownKeys.map((path) => ({ path, message: 'Unrecognized key' }))
+    );
+    this.name = 'SchemaDriftError';
+    Object.setPrototypeOf(this, SchemaDriftError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] Schema '${this.schemaName}' drifted: ${this.message}`;
+  }
+}
+
+/**
+ * Error for outgoing payloads that do not match their request schema
+ * (thrown before the request is sent)
+ */
+export class RequestValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly schemaName: string,
+    public readonly validationIssues: unknown[],
+    public readonly endpoint: string,
+    public readonly method: string
+  ) {
+    super(message);
+    this.name = 'RequestValidationError';
+    Object.setPrototypeOf(this, RequestValidationError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] ${this.method} ${this.endpoint} - payload '${this.schemaName}' is invalid: ${this.message}`;
+  }
+}
+
+/**
+ * Replay mode found no recorded exchange for a request (thrown before anything is sent)
+ */
+export class RecordingNotFoundError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly file: string
+  ) {
+    super(`No recording for '${key}' in ${file}`);
+    this.name = 'RecordingNotFoundError';
+    Object.setPrototypeOf(this, RecordingNotFoundError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] ${this.message} (record it with API_RECORD_MODE=record)`;
+  }
+}
+
+/**
+ * Request context captured when a transport failure occurs
+ */
+export interface NetworkErrorDetails {
+  /** HTTP method of the failed request */
+  method: string;
+  /** Fully resolved URL including query parameters */
+  url: string;
+  /** Number of attempts made before giving up */
+  attempts: number;
+  /** Time elapsed since the first attempt in milliseconds */
+  elapsedMs: number;
+}
+
+/**
+ * Error for network/connection issues (no HTTP response was received)
  */
 export class NetworkError extends Error {
+  public readonly method: string;
+  public readonly url: string;
+  public readonly attempts: number;
+  public readonly elapsedMs: number;
+
   constructor(
     message: string,
     public readonly endpoint: string,
-    public readonly originalError?: Error
+    public readonly originalError?: Error,
+    details?: Partial<NetworkErrorDetails>
   ) {
     super(message);
     this.name = 'NetworkError';
+    this.method = details?.method ?? 'UNKNOWN';
+    this.url = details?.url ?? endpoint;
+    this.attempts = details?.attempts ?? 1;
+    this.elapsedMs = details?.elapsedMs ?? 0;
     Object.setPrototypeOf(this, NetworkError.prototype);
   }
+
+  /**
+   * Whether the failure is transient and the request may be retried.
+   * Only failures classified as transport problems are; anything else
+   * (e.g. a TypeError thrown while building the request) is not.
+   */
+  get isTransient(): boolean {
+    return false;
+  }
+
+  /**
+   * Format error for logging
+   */
+  toLogString(): string {
+    return `[${this.name}] ${this.method} ${this.url} - ${this.message} (attempts: ${this.attempts}, elapsed: ${this.elapsedMs}ms)`;
+  }
+}
+
+/**
+ * Request did not complete within the allotted time
+ */
+export class NetworkTimeoutError extends NetworkError {
+  constructor(
+    endpoint: string,
+    originalError?: Error,
+    details?: Partial<NetworkErrorDetails>,
+    message: string = 'Request timed out'
+  ) {
+    super(message, endpoint, originalError, details);
+    this.name = 'NetworkTimeoutError';
+    Object.setPrototypeOf(this, NetworkTimeoutError.prototype);
+  }
+
+  override get isTransient(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Server actively refused the connection (ECONNREFUSED)
+ */
+export class ConnectionRefusedError extends NetworkError {
+  constructor(endpoint: string, originalError?: Error, details?: Partial<NetworkErrorDetails>) {
+    super('Connection refused', endpoint, originalError, details);
+    this.name = 'ConnectionRefusedError';
+    Object.setPrototypeOf(this, ConnectionRefusedError.prototype);
+  }
+
+  override get isTransient(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Connection was dropped mid-request (ECONNRESET, EPIPE, socket hang up)
+ */
+export class ConnectionResetError extends NetworkError {
+  constructor(endpoint: string, originalError?: Error, details?: Partial<NetworkErrorDetails>) {
+    super('Connection reset', endpoint, originalError, details);
+    this.name = 'ConnectionResetError';
+    Object.setPrototypeOf(this, ConnectionResetError.prototype);
+  }
+
+  override get isTransient(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Host name could not be resolved (ENOTFOUND, EAI_AGAIN)
+ */
+export class DnsResolutionError extends NetworkError {
+  constructor(endpoint: string, originalError?: Error, details?: Partial<NetworkErrorDetails>) {
+    super('DNS resolution failed', endpoint, originalError, details);
+    this.name = 'DnsResolutionError';
+    Object.setPrototypeOf(this, DnsResolutionError.prototype);
+  }
+
+  override get isTransient(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Request was aborted before completion (e.g. request context disposed)
+ */
+export class RequestAbortedError extends NetworkError {
+  constructor(
+    endpoint: string,
+    originalError?: Error,
+    details?: Partial<NetworkErrorDetails>,
+    message: string = 'Request aborted'
+  ) {
+    super(message, endpoint, originalError, details);
+    this.name = 'RequestAbortedError';
+    Object.setPrototypeOf(this, RequestAbortedError.prototype);
+  }
+}
+
+/**
+ * Overall deadline of a (possibly retried) request was exceeded
+ */
+export class DeadlineExceededError extends NetworkTimeoutError {
+  constructor(
+    endpoint: string,
+    public readonly deadlineMs: number,
+    details?: Partial<NetworkErrorDetails>,
+    originalError?: Error
+  ) {
+    super(endpoint, originalError, details, `Deadline of ${deadlineMs}ms exceeded`);
+    this.name = 'DeadlineExceededError';
+    Object.setPrototypeOf(this, DeadlineExceededError.prototype);
+  }
+
+  override get isTransient(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Request was cancelled by the caller through an AbortSignal
+ */
+export class RequestCancelledError extends RequestAbortedError {
+  constructor(
+    endpoint: string,
+    public readonly reason?: unknown,
+    details?: Partial<NetworkErrorDetails>
+  ) {
+    super(endpoint, undefined, details, 'Request cancelled');
+    this.name = 'RequestCancelledError';
+    Object.setPrototypeOf(this, RequestCancelledError.prototype);
+  }
+}
+
+/**
+ * Factory function to classify a transport failure into a NetworkError subclass
+ */
+export function createNetworkError(
+  error: unknown,
+  endpoint: string,
+  details?: Partial<NetworkErrorDetails>
+): NetworkError {
+  if (error instanceof NetworkError) {
+    return error;
+  }
+
+  const originalError = error instanceof Error ? error : new Error(String(error));
+  const message = originalError.message;
+
+  if (/ECONNREFUSED/.test(message)) {
+    return new ConnectionRefusedError(endpoint, originalError, details);
+  }
+  if (/ECONNRESET|EPIPE|socket hang up/i.test(message)) {
+    return new ConnectionResetError(endpoint, originalError, details);
+  }
+  if (/ENOTFOUND|EAI_AGAIN|getaddrinfo/.test(message)) {
+    return new DnsResolutionError(endpoint, originalError, details);
+  }
+  if (/ETIMEDOUT|timed? ?out|Timeout \d+ms exceeded/i.test(message)) {
+    return new NetworkTimeoutError(endpoint, originalError, details);
+  }
+  if (/abort|disposed|closed/i.test(message)) {
+    return new RequestAbortedError(endpoint, originalError, details);
+  }
+
+  return new NetworkError(`Network failure: ${message}`, endpoint, originalError, details);
 }
 
 /**
@@ -187,3 +460,18 @@ function isValidationErrorResponse(body: unknown): body is ErrorResponse {
     typeof (body as ErrorResponse).errors === 'object'
   );
 }
+
+/**
+ * Describe any thrown value for logs, preferring the typed errors' `toLogString()`
+ */
+export function describeError(error: unknown): string {
+  if (
+    error instanceof ApiError ||
+    error instanceof NetworkError ||
+    error instanceof SchemaValidationError ||
+    error instanceof RequestValidationError
+  ) {
+    return error.toLogString();
+  }
+  return error instanceof Error ? `[${error.name}] ${error.message}` : String(error);
+}
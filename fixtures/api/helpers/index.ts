@@ -1 +1,5 @@
 export * from './validation-helpers';
+export * from './pagination-helpers';
+export * from './tag-helpers';
+export * from './schema-drift';
+export * from './slug-helpers';
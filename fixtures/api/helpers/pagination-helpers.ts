@@ -0,0 +1,121 @@
+/**
+ * Pagination Helpers
+ *
+ * Generic limit/offset page walking for list endpoints that report a total
+ * count (e.g. `articlesCount`), plus assertions that paging is consistent.
+ */
+
+import { expect } from '@playwright/test';
+
+/**
+ * One page of a paginated listing
+ */
+export interface Page<T> {
+  items: T[];
+  /** Total number of items reported by the API for this page */
+  total: number;
+  /** Offset the page was requested with */
+  offset: number;
+  /** Limit the page was requested with */
+  limit: number;
+}
+
+export interface PaginationOptions {
+  /** Items per request (default: 20) */
+  pageSize?: number;
+  /** Stop after this many items in total */
+  max?: number;
+  /** Offset of the first page (default: 0) */
+  startOffset?: number;
+}
+
+/**
+ * Fetch one page given limit and offset
+ */
+export type PageFetcher<T> = (
+  limit: number,
+  offset: number
+) => Promise<{ items: T[]; total: number }>;
+
+/**
+ * Walk pages until the reported total is reached, an empty page is returned or `max` is hit
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options?: PaginationOptions
+): AsyncGenerator<Page<T>> {
+  const pageSize = options?.pageSize ?? 20;
+  const max = options?.max ?? Infinity;
+  let offset = options?.startOffset ?? 0;
+  let fetched = 0;
+
+  while (fetched < max) {
+    const limit = Math.min(pageSize, max - fetched);
+    const { items, total } = await fetchPage(limit, offset);
+
+    yield { items, total, offset, limit };
+
+    fetched += items.length;
+    offset += items.length;
+
+    if (items.length === 0 || offset >= total) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect all pages produced by an async page iterator
+ */
+export async function collectPages<T>(pages: AsyncIterable<Page<T>>): Promise<Page<T>[]> {
+  const result: Page<T>[] = [];
+  for await (const page of pages) {
+    result.push(page);
+  }
+  return result;
+}
+
+// ==================== Assertion Helpers ====================
+
+/**
+ * Assert that a walked listing is consistent:
+ * - no item appears twice (no overlap between pages)
+ * - the reported total did not change while paging
+ * - every page except the last one is full, and a complete walk saw `total` items (no gaps)
+ * - items are ordered by `orderBy` across page boundaries (when given)
+ */
+export function assertConsistentPaging<T>(
+  pages: Page<T>[],
+  getKey: (item: T) => string | number,
+  orderBy?: { value: (item: T) => string | number; direction: 'asc' | 'desc' }
+): void {
+  expect(pages.length, 'Expected at least one page').toBeGreaterThan(0);
+
+  const items = pages.flatMap((page) => page.items);
+  const keys = items.map(getKey);
+  const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+  expect(duplicates, 'Expected no duplicate items across pages').toEqual([]);
+
+  const totals = new Set(pages.map((page) => page.total));
+  expect([...totals], 'Expected total count to stay stable while paging').toHaveLength(1);
+
+  pages.slice(0, -1).forEach((page) => {
+    expect(page.items.length, `Expected full page at offset ${page.offset}`).toBe(page.limit);
+  });
+
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+  const isCompleteWalk = first.offset === 0 && last.offset + last.items.length >= last.total;
+  if (isCompleteWalk) {
+    expect(items.length, 'Expected paging to return every item (no gaps)').toBe(first.total);
+  }
+
+  if (orderBy) {
+    const values = items.map(orderBy.value);
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (orderBy.direction === 'desc') {
+      sorted.reverse();
+    }
+    expect(values, `Expected items ordered ${orderBy.direction} across pages`).toEqual(sorted);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Schema Drift Detection
+ *
+ * The response schemas are non-strict `z.object`s, so keys the backend adds
+ * or renames pass validation silently. In strict mode responses are compared
+ * key by key with their schema: unknown keys are reported as warnings or
+ * failures, and every unknown or missing field is recorded per schema name.
+ * Each record is attached to the test that validated the response, whichever
+ * fixtures it uses, and the schema drift reporter summarizes them for the
+ * whole run.
+ *
+ * Strict mode is opt-in: SCHEMA_STRICT_MODE=warn|fail (see config/), the
+ * `strictSchemas` client option, or `validateSchema(data, schema, { strict })`.
+ */
+
+import { test, TestInfo } from '@playwright/test';
+import { z } from 'zod';
+import { config } from '../../../config';
+import { SchemaDriftError } from '../errors';
+
+export type StrictMode = 'off' | 'warn' | 'fail';
+
+/** Name of the per-test attachments read by the schema drift reporter */
+export const SCHEMA_DRIFT_ATTACHMENT = 'schema-drift.json';
+
+/**
+ * Annotation of tests that provoke drift on purpose; the reporter leaves them out
+ *
+ * @example
+ * test('fails on drift', { annotation: { type: EXPECTED_SCHEMA_DRIFT } }, ...);
+ */
+export const EXPECTED_SCHEMA_DRIFT = 'expected-schema-drift';
+
+/**
+ * A field present in the data but not in the schema (`unknown`), or required
+ * by the schema but absent from the data (`missing`). Array items are `[]`.
+ */
+export interface SchemaDriftIssue {
+  kind: 'unknown' | 'missing';
+  path: string;
+}
+
+/**
+ * Drift found in one validated response
+ */
+export interface SchemaDriftRecord {
+  schemaName: string;
+  issues: SchemaDriftIssue[];
+}
+
+/**
+ * Strict mode from the env config (SCHEMA_STRICT_MODE)
+ */
+export function strictModeFromConfig(): StrictMode {
+  return config.schemaStrictMode;
+}
+
+// ==================== Detection ====================
+
+/**
+ * Schema behind optional, nullable, default and transform wrappers
+ */
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  let current = schema;
+  for (;;) {
+    if (
+      current instanceof z.ZodOptional ||
+      current instanceof z.ZodNullable ||
+      current instanceof z.ZodDefault
+    ) {
+      current = current.unwrap() as z.ZodType;
+    } else if (current instanceof z.ZodPipe) {
+      current = current.in as z.ZodType;
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Whether a field may be absent: optional or with a default, possibly behind other wrappers
+ */
+function isOptionalField(schema: z.ZodType): boolean {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodDefault) {
+      return true;
+    }
+    if (current instanceof z.ZodNullable) {
+      current = current.unwrap() as z.ZodType;
+    } else if (current instanceof z.ZodPipe) {
+      current = current.in as z.ZodType;
+    } else {
+      return false;
+    }
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function collectDrift(
+  data: unknown,
+  schema: z.ZodType,
+  path: string,
+  issues: Map<string, SchemaDriftIssue>
+): void {
+  const add = (kind: SchemaDriftIssue['kind'], issuePath: string): void => {
+    issues.set(`${kind}:${issuePath}`, { kind, path: issuePath });
+  };
+  const inner = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodObject) {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return;
+    }
+    const shape = inner.shape as Record<string, z.ZodType>;
+    const record = data as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (!(key in shape)) {
+        add('unknown', joinPath(path, key));
+      }
+    }
+    for (const [key, field] of Object.entries(shape)) {
+      if (record[key] === undefined) {
+        if (!isOptionalField(field)) {
+          add('missing', joinPath(path, key));
+        }
+      } else {
+        collectDrift(record[key], field, joinPath(path, key), issues);
+      }
+    }
+  } else if (inner instanceof z.ZodArray) {
+    if (Array.isArray(data)) {
+      for (const item of data) {
+        collectDrift(item, inner.element as z.ZodType, `${path}[]`, issues);
+      }
+    }
+  } else if (inner instanceof z.ZodUnion) {
+    const options = inner.options as z.ZodType[];
+    const option = options.find((candidate) => candidate.safeParse(data).success);
+    if (option) {
+      collectDrift(data, option, path, issues);
+    }
+  }
+}
+
+/**
+ * Unknown and missing fields of data compared with a schema
+ *
+ * @example
+ * detectSchemaDrift({ user: { email, token, role: 'admin' } }, UserResponseSchema);
+ * // [{ kind: 'unknown', path: 'user.role' }, { kind: 'missing', path: 'user.bio' }, ...]
+ */
+export function detectSchemaDrift(data: unknown, schema: z.ZodType): SchemaDriftIssue[] {
+  const issues = new Map<string, SchemaDriftIssue>();
+  collectDrift(data, schema, '', issues);
+  return [...issues.values()];
+}
+
+// ==================== Recording ====================
+
+/**
+ * Attach a record to the running test. Attachments pushed directly are sent to
+ * the reporter right away, so the record cannot be lost or end up on another
+ * test. Drift found outside of a test (e.g. in worker fixtures) is not recorded.
+ */
+function recordDrift(record: SchemaDriftRecord): void {
+  let info: TestInfo;
+  try {
+    info = test.info();
+  } catch {
+    return;
+  }
+  info.attachments.push({
+    name: SCHEMA_DRIFT_ATTACHMENT,
+    contentType: 'application/json',
+    body: Buffer.from(JSON.stringify([record], null, 2)),
+  });
+}
+
+/**
+ * Detect and record drift of a validated response, then apply the strict mode:
+ * `warn` prints unknown keys, `fail` throws for them. Missing fields are only recorded.
+ *
+ * @param record - attach the drift to the running test for the run-level report (default: true)
+ * @returns the drift found (empty when strict mode is off)
+ * @throws SchemaDriftError in `fail` mode when the data has unknown keys
+ */
+export function checkSchemaDrift(
+  data: unknown,
+  schema: z.ZodType,
+  schemaName: string,
+  mode: StrictMode,
+  record: boolean = true
+): SchemaDriftIssue[] {
+  if (mode === 'off') {
+    return [];
+  }
+
+  const issues = detectSchemaDrift(data, schema);
+  if (record && issues.length > 0) {
+    recordDrift({ schemaName, issues });
+  }
+
+  const unknownKeys = issues.filter((i) => i.kind === 'unknown').map((i) => i.path);
+  if (unknownKeys.length > 0) {
+    const error = new SchemaDriftError(schemaName, unknownKeys);
+    if (mode === 'fail') {
+      throw error;
+    }
+    console.warn(error.toLogString());
+  }
+  return issues;
+}
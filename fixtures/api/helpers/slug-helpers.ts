@@ -0,0 +1,19 @@
+/**
+ * Slug Helpers
+ *
+ * Slugs derived from article titles the way the Conduit backend builds them
+ * (before it appends its random suffix). Shared by the mock API server and
+ * the page.route API mocks.
+ */
+
+/**
+ * URL-friendly form of a title
+ */
+export function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'article'
+  );
+}
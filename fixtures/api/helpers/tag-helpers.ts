@@ -0,0 +1,51 @@
+/**
+ * Tag Helpers
+ *
+ * Assertions that tags used by freshly created articles surface in the
+ * popular tags list returned by `GET /api/tags`.
+ */
+
+import { expect } from '@playwright/test';
+import type { TagApiClient } from '../client/tag-api-client';
+import type { Article } from '../types';
+
+export interface PopularTagsAssertionOptions {
+  /** How long to keep polling the tags endpoint (default: 10000ms) */
+  timeout?: number;
+}
+
+/**
+ * Return the expected tags that are missing from a tag list (case-insensitive)
+ */
+export function findMissingTags(tags: string[], expected: string[]): string[] {
+  const known = new Set(tags.map((tag) => tag.toLowerCase()));
+  return expected.filter((tag) => !known.has(tag.toLowerCase()));
+}
+
+/**
+ * Assert that all given tags appear in the popular tags list.
+ * Polls because the backend may serve the list from a short-lived cache.
+ */
+export async function assertTagsArePopular(
+  tagClient: TagApiClient,
+  expected: string[],
+  options?: PopularTagsAssertionOptions
+): Promise<void> {
+  await expect
+    .poll(async () => findMissingTags(await tagClient.getTags(), expected), {
+      message: `Expected tags [${expected.join(', ')}] in popular tags`,
+      timeout: options?.timeout ?? 10000,
+    })
+    .toEqual([]);
+}
+
+/**
+ * Assert that every tag of a freshly created article appears in the popular tags list
+ */
+export async function assertArticleTagsArePopular(
+  tagClient: TagApiClient,
+  article: Pick<Article, 'tagList'>,
+  options?: PopularTagsAssertionOptions
+): Promise<void> {
+  await assertTagsArePopular(tagClient, article.tagList, options);
+}
@@ -17,6 +17,14 @@ import {
   ProfileResponseSchema,
   TagsResponseSchema,
 } from '../schemas/api-schemas';
+import { SchemaDriftError } from '../errors';
+import {
+  checkSchemaDrift,
+  detectSchemaDrift,
+  SchemaDriftIssue,
+  StrictMode,
+  strictModeFromConfig,
+} from './schema-drift';
 
 /**
  * Validation result with detailed error information
@@ -30,16 +38,50 @@ export interface ValidationResult<T> {
     expected?: string;
     received?: string;
   }[];
+  /** Unknown and missing fields (strict mode only) */
+  drift?: SchemaDriftIssue[];
+}
+
+export interface SchemaValidationOptions {
+  /** Report keys the schema does not declare (default: SCHEMA_STRICT_MODE) */
+  strict?: StrictMode;
+  /** Name drift is recorded under (default: 'Response') */
+  schemaName?: string;
+  /** Add the drift to the run-level schema drift report (default: true) */
+  record?: boolean;
 }
 
 /**
- * Validate data against a Zod schema with detailed error reporting
+ * Validate data against a Zod schema with detailed error reporting.
+ * In strict mode 'fail', unknown keys make the validation fail.
  */
-export function validateSchema<T>(data: unknown, schema: z.ZodType<T>): ValidationResult<T> {
+export function validateSchema<T>(
+  data: unknown,
+  schema: z.ZodType<T>,
+  options: SchemaValidationOptions = {}
+): ValidationResult<T> {
   const result = schema.safeParse(data);
 
   if (result.success) {
-    return { success: true, data: result.data };
+    try {
+      const drift = checkSchemaDrift(
+        data,
+        schema,
+        options.schemaName ?? 'Response',
+        options.strict ?? strictModeFromConfig(),
+        options.record
+      );
+      return { success: true, data: result.data, ...(drift.length > 0 && { drift }) };
+    } catch (error) {
+      if (!(error instanceof SchemaDriftError)) {
+        throw error;
+      }
+      return {
+        success: false,
+        errors: error.unknownKeys.map((path) => ({ path, message: 'Unrecognized key' })),
+        drift: detectSchemaDrift(data, schema),
+      };
+    }
   }
 
   return {
@@ -59,9 +101,10 @@ export function validateSchema<T>(data: unknown, schema: z.ZodType<T>): Validati
 export function assertSchema<T>(
   data: unknown,
   schema: z.ZodType<T>,
-  schemaName: string = 'Response'
+  schemaName: string = 'Response',
+  options: Pick<SchemaValidationOptions, 'strict'> = {}
 ): asserts data is T {
-  const result = validateSchema(data, schema);
+  const result = validateSchema(data, schema, { ...options, schemaName });
 
   if (!result.success) {
     const errorDetails = result.errors
@@ -80,7 +123,7 @@ export function assertSchema<T>(
 export function validateArticleResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof ArticleResponseSchema>> {
-  return validateSchema(body, ArticleResponseSchema);
+  return validateSchema(body, ArticleResponseSchema, { schemaName: 'ArticleResponse' });
 }
 
 /**
@@ -98,7 +141,7 @@ export function assertArticleResponse(
 export function validateArticlesResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof ArticlesResponseSchema>> {
-  return validateSchema(body, ArticlesResponseSchema);
+  return validateSchema(body, ArticlesResponseSchema, { schemaName: 'ArticlesResponse' });
 }
 
 /**
@@ -116,7 +159,7 @@ export function assertArticlesResponse(
 export function validateUserResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof UserResponseSchema>> {
-  return validateSchema(body, UserResponseSchema);
+  return validateSchema(body, UserResponseSchema, { schemaName: 'UserResponse' });
 }
 
 /**
@@ -134,7 +177,7 @@ export function assertUserResponse(
 export function validateErrorResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof ErrorResponseSchema>> {
-  return validateSchema(body, ErrorResponseSchema);
+  return validateSchema(body, ErrorResponseSchema, { schemaName: 'ErrorResponse' });
 }
 
 /**
@@ -152,7 +195,7 @@ export function assertErrorResponse(
 export function validateCommentResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof CommentResponseSchema>> {
-  return validateSchema(body, CommentResponseSchema);
+  return validateSchema(body, CommentResponseSchema, { schemaName: 'CommentResponse' });
 }
 
 /**
@@ -161,7 +204,7 @@ export function validateCommentResponse(
 export function validateCommentsResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof CommentsResponseSchema>> {
-  return validateSchema(body, CommentsResponseSchema);
+  return validateSchema(body, CommentsResponseSchema, { schemaName: 'CommentsResponse' });
 }
 
 /**
@@ -170,7 +213,7 @@ export function validateCommentsResponse(
 export function validateProfileResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof ProfileResponseSchema>> {
-  return validateSchema(body, ProfileResponseSchema);
+  return validateSchema(body, ProfileResponseSchema, { schemaName: 'ProfileResponse' });
 }
 
 /**
@@ -179,7 +222,7 @@ export function validateProfileResponse(
 export function validateTagsResponse(
   body: unknown
 ): ValidationResult<z.infer<typeof TagsResponseSchema>> {
-  return validateSchema(body, TagsResponseSchema);
+  return validateSchema(body, TagsResponseSchema, { schemaName: 'TagsResponse' });
 }
 
 // ==================== Assertion Helpers ====================
@@ -0,0 +1,86 @@
+/**
+ * API Log Collector
+ *
+ * Gathers request logs from every API client created while the collector
+ * is active, so the traffic of a whole test can be exported at once.
+ */
+
+import type { LogEntry } from '../client/base-api-client';
+
+/**
+ * Anything that exposes request logs (implemented by BaseApiClient)
+ */
+export interface LogSource {
+  getLogs(): LogEntry[];
+}
+
+/**
+ * Log entry enriched with the name of the client that produced it
+ */
+export interface CollectedLogEntry extends LogEntry {
+  client: string;
+}
+
+/**
+ * Collector that newly created clients register with (one test runs per worker at a time)
+ */
+const registry: { active?: ApiLogCollector } = {};
+
+/**
+ * Register a log source with the currently active collector (no-op when none is active)
+ */
+export function registerLogSource(source: LogSource): void {
+  registry.active?.register(source);
+}
+
+/**
+ * Collects logs of all sources registered between start() and stop()
+ */
+export class ApiLogCollector {
+  private sources: LogSource[] = [];
+
+  /**
+   * Make this collector receive all newly created clients
+   */
+  start(): void {
+    registry.active = this;
+  }
+
+  /**
+   * Stop receiving new clients (already registered ones are kept)
+   */
+  stop(): void {
+    if (registry.active === this) {
+      registry.active = undefined;
+    }
+  }
+
+  /**
+   * Register a log source explicitly
+   */
+  register(source: LogSource): void {
+    if (!this.sources.includes(source)) {
+      this.sources.push(source);
+    }
+  }
+
+  /**
+   * Get all entries from all sources, ordered by timestamp
+   */
+  getEntries(): CollectedLogEntry[] {
+    return this.sources
+      .flatMap((source) =>
+        source.getLogs().map((entry) => ({ ...entry, client: source.constructor.name }))
+      )
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+}
+
+/**
+ * Format a log entry as a single human-readable line
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  const outcome = entry.status !== undefined ? String(entry.status) : `ERROR ${entry.error}`;
+  const attempt = entry.attempt && entry.attempt > 1 ? ` [attempt ${entry.attempt}]` : '';
+  return `${entry.method} ${entry.url} → ${outcome} (${entry.duration ?? 0}ms)${attempt}`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Request Replay Export
+ *
+ * Turns a recorded API call into a ready-to-run curl command or an
+ * equivalent `apiRequest` snippet, optionally masking secrets.
+ */
+
+import type { LogEntry } from '../client/base-api-client';
+import type { ApiRequestParams } from '../plain-function';
+import { redactBody, redactHeaders, RedactionRules, resolveRedactionRules } from './redaction';
+
+/**
+ * Minimal description of a request that can be replayed
+ */
+export interface ReplayableRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ReplayExportOptions {
+  /** Mask secrets (true = default rules, false = keep raw values) */
+  redact?: boolean | Partial<RedactionRules>;
+}
+
+/**
+ * Build a replayable request from a log entry
+ */
+export function requestFromLogEntry(entry: LogEntry): ReplayableRequest {
+  return {
+    method: entry.method,
+    url: entry.url,
+    headers: entry.requestHeaders,
+    body: entry.requestBody,
+  };
+}
+
+/** Methods accepted by the `apiRequest` helper */
+const API_REQUEST_METHODS: readonly string[] = [
+  'GET',
+  'POST',
+  'PUT',
+  'DELETE',
+] satisfies ApiRequestParams['method'][];
+
+/**
+ * Apply redaction according to export options
+ */
+function prepare(request: ReplayableRequest, options?: ReplayExportOptions): ReplayableRequest {
+  const redact = options?.redact ?? true;
+  if (redact === false) {
+    return request;
+  }
+
+  const rules = resolveRedactionRules(redact === true ? undefined : redact);
+  return {
+    ...request,
+    headers: request.headers && redactHeaders(request.headers, rules),
+    body: redactBody(request.body, rules),
+  };
+}
+
+/**
+ * Quote a value for POSIX shells
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Export a request as a curl command
+ */
+export function toCurlCommand(request: ReplayableRequest, options?: ReplayExportOptions): string {
+  const { method, url, headers, body } = prepare(request, options);
+  const parts = [`curl -X ${method} ${shellQuote(url)}`];
+
+  Object.entries(headers ?? {}).forEach(([name, value]) => {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  });
+
+  if (body !== undefined && body !== null) {
+    parts.push(`--data-raw ${shellQuote(JSON.stringify(body))}`);
+  }
+
+  return parts.join(' \\\n  ');
+}
+
+/**
+ * Export a request as an `apiRequest` fixture call
+ *
+ * Methods the helper does not support (e.g. PATCH) are exported as a curl command instead.
+ */
+export function toApiRequestSnippet(
+  request: ReplayableRequest,
+  options?: ReplayExportOptions
+): string {
+  const method = request.method.toUpperCase();
+  if (!API_REQUEST_METHODS.includes(method)) {
+    return toCurlCommand(request, options);
+  }
+
+  const { url, headers, body } = prepare(request, options);
+  const authorization = Object.entries(headers ?? {}).find(
+    ([name]) => name.toLowerCase() === 'authorization'
+  )?.[1];
+
+  const lines = [
+    'const { status, body } = await apiRequest({',
+    `  method: '${method}',`,
+    `  url: ${JSON.stringify(url)},`,
+  ];
+
+  if (body !== undefined && body !== null) {
+    const json = JSON.stringify(body, null, 2).replace(/\n/g, '\n  ');
+    lines.push(`  body: ${json},`);
+  }
+
+  if (authorization) {
+    // A masked header has no "<scheme> <token>" form left, so fall back to the configured token
+    const token = authorization.split(' ').slice(1).join(' ');
+    lines.push(`  headers: ${token ? JSON.stringify(token) : 'config.accessToken'},`);
+  }
+
+  lines.push('});');
+  return lines.join('\n');
+}
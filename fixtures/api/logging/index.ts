@@ -0,0 +1,3 @@
+export * from './api-log-collector';
+export * from './redaction';
+export * from './curl-export';
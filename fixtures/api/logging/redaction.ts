@@ -0,0 +1,98 @@
+/**
+ * Log Redaction
+ *
+ * Shared rules for masking secrets and personal data in captured API traffic.
+ * Logs are stored raw in memory; every export (report attachments, curl
+ * commands, error messages) runs them through these helpers first.
+ */
+
+import type { LogEntry } from '../client/base-api-client';
+
+export interface RedactionRules {
+  /** Header names to mask (case-insensitive) */
+  headers: string[];
+  /** Body field names to mask at any depth (case-insensitive) */
+  fields: string[];
+  /** Replacement value for masked data */
+  mask: string;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  headers: ['authorization', 'cookie', 'set-cookie'],
+  fields: ['token', 'password', 'email'],
+  mask: '***',
+};
+
+/**
+ * Merge custom rules with the defaults
+ */
+export function resolveRedactionRules(rules?: Partial<RedactionRules>): RedactionRules {
+  return { ...DEFAULT_REDACTION_RULES, ...rules };
+}
+
+/**
+ * Mask sensitive headers
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+  rules: RedactionRules = DEFAULT_REDACTION_RULES
+): Record<string, string> {
+  const sensitive = rules.headers.map((h) => h.toLowerCase());
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      sensitive.includes(name.toLowerCase()) ? rules.mask : value,
+    ])
+  );
+}
+
+/**
+ * Mask sensitive fields in a JSON-like body (recursively)
+ */
+export function redactBody(
+  body: unknown,
+  rules: RedactionRules = DEFAULT_REDACTION_RULES
+): unknown {
+  const sensitive = rules.fields.map((f) => f.toLowerCase());
+
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [
+          key,
+          sensitive.includes(key.toLowerCase()) ? rules.mask : redact(nested),
+        ])
+      );
+    }
+    if (typeof value === 'string') {
+      // Truncated bodies are kept as raw JSON text
+      return sensitive.reduce(
+        (text, field) =>
+          text.replace(new RegExp(`("${field}"\\s*:\\s*)"[^"]*"`, 'gi'), `$1"${rules.mask}"`),
+        value
+      );
+    }
+    return value;
+  };
+
+  return redact(body);
+}
+
+/**
+ * Produce a copy of a log entry with headers and bodies masked
+ */
+export function redactLogEntry<T extends LogEntry>(
+  entry: T,
+  rules: RedactionRules = DEFAULT_REDACTION_RULES
+): T {
+  return {
+    ...entry,
+    requestHeaders: entry.requestHeaders && redactHeaders(entry.requestHeaders, rules),
+    requestBody: redactBody(entry.requestBody, rules),
+    responseHeaders: entry.responseHeaders && redactHeaders(entry.responseHeaders, rules),
+    responseBody: redactBody(entry.responseBody, rules),
+  };
+}
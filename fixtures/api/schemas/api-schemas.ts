@@ -177,6 +177,19 @@ export const RegisterPayloadSchema = z.object({
   }),
 });
 
+/**
+ * Update current user request payload
+ */
+export const UpdateUserPayloadSchema = z.object({
+  user: z.object({
+    email: z.email().optional(),
+    username: z.string().min(1).optional(),
+    password: z.string().min(8).optional(),
+    image: z.string().nullable().optional(),
+    bio: z.string().nullable().optional(),
+  }),
+});
+
 /**
  * Create article request payload
  */
@@ -1,76 +1,52 @@
 import { APIRequestContext } from '@playwright/test';
 import { ArticlePayload, ArticleData } from '../../../test-data/types';
-import { API_ENDPOINTS, HTTP_STATUS } from '../../../test-data/constants';
+import { ArticleApiClient } from '../client/article-api-client';
+import { ApiClientOptions, CreateOptions } from '../client/base-api-client';
+import { ApiError, describeError, NotFoundError } from '../errors';
 
 /**
  * API Service for article-related operations.
  * Used for test setup, teardown, and direct API testing.
+ *
+ * Wraps ArticleApiClient with the shapes teardown code wants: creates and
+ * updates return the slug next to the article, and deletes report whether
+ * anything was removed instead of throwing on a missing article.
  */
 export class ArticleApiService {
-  constructor(
-    private request: APIRequestContext,
-    private baseUrl: string,
-    private token?: string
-  ) {}
+  readonly client: ArticleApiClient;
 
-  private get headers(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (this.token) {
-      headers['Authorization'] = `Token ${this.token}`;
-    }
-    return headers;
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
+    this.client = new ArticleApiClient(request, baseUrl, token, options);
   }
 
   /**
    * Set authentication token
    */
   setToken(token: string): void {
-    this.token = token;
+    this.client.setToken(token);
   }
 
   /**
-   * Create a new article
+   * Create a new article (pass `{ retry: UNIQUE_CREATE_RETRY }` to retry gateway errors)
    */
   async createArticle(
-    articleData: ArticlePayload
+    articleData: ArticlePayload,
+    options?: CreateOptions
   ): Promise<{ slug: string; article: ArticleData }> {
-    const response = await this.request.post(`${this.baseUrl}${API_ENDPOINTS.articles.base}/`, {
-      headers: this.headers,
-      data: articleData,
-    });
-
-    if (response.status() !== HTTP_STATUS.CREATED) {
-      throw new Error(`Failed to create article: ${response.status()} - ${await response.text()}`);
-    }
-
-    const body = (await response.json()) as { article: ArticleData & { slug: string } };
-    return {
-      slug: body.article.slug,
-      article: body.article,
-    };
+    const article = await this.client.createArticle(articleData, options);
+    return { slug: article.slug, article };
   }
 
   /**
    * Get article by slug
    */
   async getArticle(slug: string): Promise<ArticleData | null> {
-    const response = await this.request.get(
-      `${this.baseUrl}${API_ENDPOINTS.articles.bySlug(slug)}`,
-      { headers: this.headers }
-    );
-
-    if (response.status() === HTTP_STATUS.NOT_FOUND) {
-      return null;
-    }
-
-    if (response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Failed to get article: ${response.status()}`);
-    }
-
-    const body = (await response.json()) as { article: ArticleData };
-    return body.article;
+    return this.client.getArticle(slug);
   }
 
   /**
@@ -80,35 +56,40 @@ export class ArticleApiService {
     slug: string,
     articleData: ArticlePayload
   ): Promise<{ slug: string; article: ArticleData }> {
-    const response = await this.request.put(
-      `${this.baseUrl}${API_ENDPOINTS.articles.bySlug(slug)}`,
-      {
-        headers: this.headers,
-        data: articleData,
-      }
-    );
-
-    if (response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Failed to update article: ${response.status()}`);
-    }
-
-    const body = (await response.json()) as { article: ArticleData & { slug: string } };
-    return {
-      slug: body.article.slug,
-      article: body.article,
-    };
+    const article = await this.client.updateArticle(slug, articleData);
+    return { slug: article.slug, article };
   }
 
   /**
    * Delete an article
+   * Returns false if the API rejects the request (e.g. the article does not exist);
+   * rejections other than 404 are logged
    */
   async deleteArticle(slug: string): Promise<boolean> {
-    const response = await this.request.delete(
-      `${this.baseUrl}${API_ENDPOINTS.articles.bySlug(slug)}`,
-      { headers: this.headers }
-    );
+    try {
+      return await this.deleteArticleOrThrow(slug);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        console.warn(`Failed to delete article ${slug}: ${describeError(error)}`);
+        return false;
+      }
+      throw error;
+    }
+  }
 
-    return response.status() === HTTP_STATUS.NO_CONTENT;
+  /**
+   * Delete an article
+   * Returns false if the article does not exist; other failures throw a typed ApiError
+   */
+  async deleteArticleOrThrow(slug: string): Promise<boolean> {
+    try {
+      return await this.client.deleteArticle(slug);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return false;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -1,106 +1,62 @@
 import { APIRequestContext } from '@playwright/test';
-import { UserPayload, UserCredentials, UserRegistrationData } from '../../../test-data/types';
-import { API_ENDPOINTS, HTTP_STATUS } from '../../../test-data/constants';
+import { UserCredentials, UserRegistrationData } from '../../../test-data/types';
+import { ApiClientOptions } from '../client/base-api-client';
+import { UserApiClient } from '../client/user-api-client';
+import { UserResponse } from '../types';
 
-interface AuthResponse {
-  user: {
-    email: string;
-    token: string;
-    username: string;
-    bio: string | null;
-    image: string | null;
-  };
-}
+type AuthResponse = UserResponse;
 
 /**
  * API Service for user/auth-related operations.
  * Used for test setup and authentication.
+ *
+ * Wraps UserApiClient in the `{ user }` response shape of the Conduit API.
+ * The client keeps the token of the last login or registration, so later
+ * calls on the same service are authenticated.
  */
 export class UserApiService {
-  private token?: string;
-
-  constructor(
-    private request: APIRequestContext,
-    private baseUrl: string
-  ) {}
+  readonly client: UserApiClient;
 
-  private get headers(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (this.token) {
-      headers['Authorization'] = `Token ${this.token}`;
-    }
-    return headers;
+  constructor(request: APIRequestContext, baseUrl: string, options?: ApiClientOptions) {
+    this.client = new UserApiClient(request, baseUrl, undefined, options);
   }
 
   /**
    * Get current token
    */
   getToken(): string | undefined {
-    return this.token;
+    return this.client.getToken();
   }
 
   /**
    * Set authentication token
    */
   setToken(token: string): void {
-    this.token = token;
+    this.client.setToken(token);
   }
 
   /**
    * Login user and store token
    */
   async login(credentials: UserCredentials): Promise<AuthResponse> {
-    const payload: UserPayload = { user: credentials };
-
-    const response = await this.request.post(`${this.baseUrl}${API_ENDPOINTS.users.login}`, {
-      headers: { 'Content-Type': 'application/json' },
-      data: payload,
-    });
-
-    if (response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Login failed: ${response.status()} - ${await response.text()}`);
-    }
-
-    const body = (await response.json()) as AuthResponse;
-    this.token = body.user.token;
-    return body;
+    const user = await this.client.login(credentials.email, credentials.password);
+    return { user };
   }
 
   /**
    * Register a new user
    */
   async register(userData: UserRegistrationData): Promise<AuthResponse> {
-    const payload: UserPayload = { user: userData };
-
-    const response = await this.request.post(`${this.baseUrl}${API_ENDPOINTS.users.register}`, {
-      headers: { 'Content-Type': 'application/json' },
-      data: payload,
-    });
-
-    if (response.status() !== HTTP_STATUS.CREATED && response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Registration failed: ${response.status()} - ${await response.text()}`);
-    }
-
-    const body = (await response.json()) as AuthResponse;
-    this.token = body.user.token;
-    return body;
+    const user = await this.client.register(userData.username, userData.email, userData.password);
+    return { user };
   }
 
   /**
    * Get current user info
    */
   async getCurrentUser(): Promise<AuthResponse> {
-    const response = await this.request.get(`${this.baseUrl}${API_ENDPOINTS.users.current}`, {
-      headers: this.headers,
-    });
-
-    if (response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Failed to get current user: ${response.status()}`);
-    }
-
-    return (await response.json()) as AuthResponse;
+    const user = await this.client.getCurrentUser();
+    return { user };
   }
 
   /**
@@ -109,15 +65,7 @@ export class UserApiService {
   async updateUser(
     updates: Partial<UserRegistrationData & { bio: string; image: string }>
   ): Promise<AuthResponse> {
-    const response = await this.request.put(`${this.baseUrl}${API_ENDPOINTS.users.current}`, {
-      headers: this.headers,
-      data: { user: updates },
-    });
-
-    if (response.status() !== HTTP_STATUS.OK) {
-      throw new Error(`Failed to update user: ${response.status()}`);
-    }
-
-    return (await response.json()) as AuthResponse;
+    const user = await this.client.updateUser(updates);
+    return { user };
   }
 }
@@ -130,8 +130,9 @@ export interface UpdateUserPayload {
     email?: string;
     username?: string;
     password?: string;
-    image?: string;
-    bio?: string;
+    /** null clears the field */
+    image?: string | null;
+    bio?: string | null;
   };
 }
 
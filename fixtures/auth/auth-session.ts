@@ -0,0 +1,94 @@
+/**
+ * Auth Session
+ *
+ * Token provider for one user, shared by every client acting as that user.
+ * Refreshes the token shortly before its JWT expiry and re-logs in when the
+ * API rejects it; concurrent refreshes are collapsed into a single login and
+ * listeners are notified of every new token.
+ */
+
+import { isTokenExpiring, TokenProvider } from '../api/client/token-provider';
+
+export interface AuthSessionOptions {
+  /** Refresh this long before the JWT expires (default: 60000ms) */
+  refreshBeforeMs?: number;
+}
+
+export type TokenListener = (token: string) => void;
+
+export class AuthSession implements TokenProvider {
+  private token?: string;
+  private pending?: Promise<string>;
+  private listeners = new Set<TokenListener>();
+  private readonly refreshBeforeMs: number;
+
+  /**
+   * @param login - Obtains a new token, e.g. by logging in with the user's credentials
+   * @param token - Token to start with (no login happens until it is needed)
+   */
+  constructor(
+    private readonly login: () => Promise<string>,
+    token?: string,
+    options?: AuthSessionOptions
+  ) {
+    this.token = token;
+    this.refreshBeforeMs = options?.refreshBeforeMs ?? 60_000;
+  }
+
+  /**
+   * Current token, logging in first when there is none or it is about to expire
+   */
+  async getToken(): Promise<string> {
+    if (!this.token || isTokenExpiring(this.token, this.refreshBeforeMs)) {
+      return this.refresh(this.token);
+    }
+    return this.token;
+  }
+
+  /**
+   * Log in again, unless another client already replaced the rejected token
+   */
+  async refresh(rejectedToken?: string): Promise<string> {
+    if (this.token && rejectedToken !== undefined && this.token !== rejectedToken) {
+      return this.token;
+    }
+
+    this.pending ??= this.login()
+      .then((token) => {
+        this.setToken(token);
+        return token;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  }
+
+  /**
+   * Replace the token (e.g. after a login made outside the session) and notify listeners
+   */
+  setToken(token: string): void {
+    if (token === this.token) {
+      return;
+    }
+    this.token = token;
+    this.listeners.forEach((listener) => listener(token));
+  }
+
+  /**
+   * Current token without refreshing
+   */
+  peekToken(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Subscribe to token changes; returns a function that unsubscribes
+   */
+  onTokenChange(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
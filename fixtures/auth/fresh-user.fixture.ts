@@ -0,0 +1,76 @@
+import { mergeTests } from '@playwright/test';
+import { UserApiClient } from '../api/client/user-api-client';
+import { User } from '../api/types';
+import { test as cleanupFixture } from '../test-hooks/cleanup.fixture';
+import { UserBuilder } from '../../test-data/builders';
+import { UserRegistrationData } from '../../test-data/types';
+import { AuthSession } from './auth-session';
+import { test as personaFixture } from './persona.fixture';
+import { UserSession } from './user-session';
+import { config } from '../../config';
+
+/**
+ * A brand-new user registered for a single test
+ */
+export interface FreshUser extends UserSession {
+  /** Registration data, including the plain-text password */
+  credentials: UserRegistrationData;
+  user: User;
+  token: string;
+  /** Register an article created by this user for deletion after the test */
+  trackArticle(slug: string): void;
+}
+
+/**
+ * Fresh user fixture types
+ */
+export interface FreshUserFixtures {
+  /**
+   * User registered just for this test, so profile changes never touch shared accounts.
+   * Conduit cannot delete users, so the account is recorded as a 'fresh-user' annotation.
+   */
+  freshUser: FreshUser;
+}
+
+export const test = mergeTests(personaFixture, cleanupFixture).extend<FreshUserFixtures>({
+  /**
+   * Register a unique user and authenticate clients and pages as that user
+   */
+  freshUser: async ({ request, userSessions, cleanup }, use, testInfo): Promise<void> => {
+    const credentials = UserBuilder.unique().buildRegistration();
+    const user = await new UserApiClient(request, config.apiUrl).register(
+      credentials.username,
+      credentials.email,
+      credentials.password
+    );
+
+    testInfo.annotations.push({
+      type: 'fresh-user',
+      description: `${user.username} <${user.email}>`,
+    });
+
+    // Re-login with the registration credentials when the token expires or is rejected
+    const auth = new AuthSession(async () => {
+      const client = new UserApiClient(request, config.apiUrl);
+      return (await client.login(credentials.email, credentials.password)).token;
+    }, user.token);
+    const session = userSessions.create(user.token, auth);
+
+    await use({
+      ...session,
+      credentials,
+      user,
+      token: user.token,
+      // Deleted with this user's token; not written to the cleanup ledger,
+      // whose replay can only log in as the configured personas
+      trackArticle: (slug) =>
+        cleanup.register({
+          type: 'article',
+          id: slug,
+          undo: () => session.articles.deleteArticle(slug),
+        }),
+    });
+  },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,8 @@
+export { test, expect } from './persona.fixture';
+export { test as freshUserTest } from './fresh-user.fixture';
+export type { FreshUser, FreshUserFixtures } from './fresh-user.fixture';
+export type { PersonaFixtures, PersonaWorkerFixtures, PersonaSession } from './persona.fixture';
+export * from './personas';
+export * from './user-session';
+export * from './storage-state';
+export * from './auth-session';
@@ -0,0 +1,112 @@
+import { test as base, Browser } from '@playwright/test';
+import { User } from '../api/types';
+import { PersonaName, Personas, PersonaSessionCache, personasFromEnv } from './personas';
+import { UserSession, UserSessionFactory } from './user-session';
+import { config } from '../../config';
+
+/**
+ * A persona authenticated for the current test
+ */
+export interface PersonaSession extends UserSession {
+  name: PersonaName;
+  /** Logged-in user (undefined for anonymous personas) */
+  user?: User;
+}
+
+/**
+ * Persona fixture types
+ */
+export interface PersonaFixtures {
+  /**
+   * Authenticate as a named persona
+   *
+   * @example
+   * const reader = await asUser('reader');
+   * await reader.articles.favoriteArticle(slug);
+   */
+  asUser: (name: PersonaName) => Promise<PersonaSession>;
+
+  /**
+   * Factory of user sessions for the test (used by asUser and freshUser)
+   */
+  userSessions: UserSessionFactory;
+}
+
+export interface PersonaWorkerFixtures {
+  /**
+   * Persona credentials (configurable via `use` in the config; defaults to env)
+   */
+  personas: Personas;
+
+  /**
+   * Logged-in personas shared by all tests of the worker
+   */
+  personaSessions: PersonaSessionCache;
+
+  /**
+   * Browser for persona pages, launched on first use so API-only tests do not start one
+   */
+  personaBrowser: () => Promise<Browser>;
+}
+
+export const test = base.extend<PersonaFixtures, PersonaWorkerFixtures>({
+  personas: [personasFromEnv(), { option: true, scope: 'worker' }],
+
+  /**
+   * Per-worker persona logins, made on a dedicated request context.
+   * The author session starts from ACCESS_TOKEN and keeps it up to date.
+   */
+  personaSessions: [
+    async ({ personas, playwright }, use): Promise<void> => {
+      const request = await playwright.request.newContext();
+      const sessions = new PersonaSessionCache(request, config.apiUrl, personas);
+      const unsubscribe = sessions
+        .authSession('author', config.accessToken)
+        ?.onTokenChange((token) => {
+          config.accessToken = token;
+        });
+
+      await use(sessions);
+
+      unsubscribe?.();
+      await request.dispose();
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * Lazily launched browser for persona pages, closed when the worker ends
+   */
+  personaBrowser: [
+    async ({ playwright, browserName, launchOptions }, use): Promise<void> => {
+      let browser: Promise<Browser> | undefined;
+      await use(() => (browser ??= playwright[browserName].launch(launchOptions)));
+      if (browser) {
+        await (await browser).close();
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * User sessions for the test; browser contexts opened by them are closed after the test
+   */
+  userSessions: async ({ request, baseURL, personaBrowser }, use): Promise<void> => {
+    const factory = new UserSessionFactory(request, config.apiUrl, baseURL, personaBrowser);
+    await use(factory);
+    await factory.close();
+  },
+
+  /**
+   * Persona sessions for the test
+   */
+  asUser: async ({ personaSessions, userSessions }, use): Promise<void> => {
+    await use(async (name) => {
+      const user = await personaSessions.login(name);
+      const auth = personaSessions.authSession(name);
+      return { name, user, ...userSessions.create(await auth?.getToken(), auth) };
+    });
+  },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,166 @@
+/**
+ * Test Personas
+ *
+ * Named users for cross-user scenarios (author, reader, follower) plus an
+ * anonymous visitor. Credentials come from env by default and can be
+ * overridden through the `personas` option in the Playwright config.
+ * Each persona is logged in at most once per worker and shares one auth
+ * session (token refresh and re-login) across all of its clients.
+ */
+
+import { APIRequestContext, BrowserContextOptions } from '@playwright/test';
+import { UserApiClient } from '../api/client/user-api-client';
+import { User } from '../api/types';
+import { AuthSession } from './auth-session';
+
+export type PersonaName = 'author' | 'reader' | 'follower' | 'fresh-unregistered';
+
+/**
+ * How a persona authenticates; anonymous personas have no account
+ */
+export interface PersonaDefinition {
+  email?: string;
+  password?: string;
+  username?: string;
+  /** Visitor without an account (no token, empty storage state) */
+  anonymous?: boolean;
+}
+
+export type Personas = Record<PersonaName, PersonaDefinition>;
+
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+/** localStorage key the Conduit frontend reads the JWT from */
+export const TOKEN_STORAGE_KEY = 'jwtToken';
+
+/**
+ * Env variable prefix of an account persona ('' for author, 'READER_' for reader, ...)
+ */
+function envPrefix(name: PersonaName): string {
+  return name === 'author' ? '' : `${name.toUpperCase()}_`;
+}
+
+/**
+ * Persona definitions read from env:
+ * - author: EMAIL / PASSWORD / USER_NAME (the default test user)
+ * - reader: READER_EMAIL / READER_PASSWORD / READER_USER_NAME
+ * - follower: FOLLOWER_EMAIL / FOLLOWER_PASSWORD / FOLLOWER_USER_NAME
+ * - fresh-unregistered: anonymous visitor
+ */
+export function personasFromEnv(env: NodeJS.ProcessEnv = process.env): Personas {
+  const fromEnv = (prefix: string): PersonaDefinition => ({
+    email: env[`${prefix}EMAIL`],
+    password: env[`${prefix}PASSWORD`],
+    username: env[`${prefix}USER_NAME`],
+  });
+
+  return {
+    author: fromEnv(envPrefix('author')),
+    reader: fromEnv(envPrefix('reader')),
+    follower: fromEnv(envPrefix('follower')),
+    'fresh-unregistered': { anonymous: true },
+  };
+}
+
+/**
+ * Whether a persona can be used: anonymous, or with both email and password set
+ */
+export function hasPersona(name: PersonaName, personas: Personas = personasFromEnv()): boolean {
+  const persona = personas[name];
+  return Boolean(persona?.anonymous || (persona?.email && persona?.password));
+}
+
+/**
+ * Browser storage state carrying the token the way the frontend stores it
+ */
+export function buildStorageState(token: string | undefined, baseUrl?: string): StorageState {
+  if (!token || !baseUrl) {
+    return { cookies: [], origins: [] };
+  }
+  return {
+    cookies: [],
+    origins: [
+      {
+        origin: new URL(baseUrl).origin,
+        localStorage: [{ name: TOKEN_STORAGE_KEY, value: token }],
+      },
+    ],
+  };
+}
+
+/**
+ * Per-worker cache of logged-in personas and their auth sessions
+ */
+export class PersonaSessionCache {
+  private users = new Map<PersonaName, Promise<User | undefined>>();
+  private authSessions = new Map<PersonaName, AuthSession>();
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly baseUrl: string,
+    private readonly personas: Personas
+  ) {}
+
+  /**
+   * Log the persona in (once per worker); resolves to undefined for anonymous personas
+   */
+  login(name: PersonaName): Promise<User | undefined> {
+    let user = this.users.get(name);
+    if (!user) {
+      user = this.authenticate(name);
+      this.users.set(name, user);
+      // Do not cache failed logins, so a later test can retry
+      void user.catch(() => this.users.delete(name));
+    }
+    return user;
+  }
+
+  /**
+   * Auth session shared by every client acting as the persona (undefined for anonymous personas).
+   * `initialToken` seeds a new session so no login is needed until the token expires or is rejected.
+   */
+  authSession(name: PersonaName, initialToken?: string): AuthSession | undefined {
+    if (this.definition(name).anonymous) {
+      return undefined;
+    }
+
+    let session = this.authSessions.get(name);
+    if (!session) {
+      session = new AuthSession(async () => (await this.loginUser(name)).token, initialToken);
+      this.authSessions.set(name, session);
+    }
+    return session;
+  }
+
+  private async authenticate(name: PersonaName): Promise<User | undefined> {
+    const session = this.authSession(name);
+    if (!session) {
+      return undefined;
+    }
+
+    const user = await this.loginUser(name);
+    session.setToken(user.token);
+    return user;
+  }
+
+  private definition(name: PersonaName): PersonaDefinition {
+    const persona = this.personas[name];
+    if (!persona) {
+      throw new Error(`Unknown persona '${name}'`);
+    }
+    return persona;
+  }
+
+  private async loginUser(name: PersonaName): Promise<User> {
+    const { email, password } = this.definition(name);
+    if (!email || !password) {
+      const prefix = envPrefix(name);
+      throw new Error(
+        `Persona '${name}' has no credentials; set ${prefix}EMAIL and ${prefix}PASSWORD ` +
+          `or define it in the 'personas' option`
+      );
+    }
+
+    return new UserApiClient(this.request, this.baseUrl).login(email, password);
+  }
+}
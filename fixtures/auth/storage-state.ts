@@ -0,0 +1,59 @@
+/**
+ * Storage State Helpers
+ *
+ * Produce logged-in browser storage state straight from an API token,
+ * without going through the login form: the token is written where the
+ * Conduit frontend looks for it (localStorage `jwtToken`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { APIRequestContext, BrowserContext } from '@playwright/test';
+import { UserApiClient } from '../api/client/user-api-client';
+import { User } from '../api/types';
+import { buildStorageState, PersonaName, TOKEN_STORAGE_KEY } from './personas';
+
+/** Default storage state file used by the chromium project */
+export const USER_STORAGE_STATE_PATH = '.auth/userSession.json';
+
+/**
+ * Storage state file of a persona, written by auth.setup
+ *
+ * @example
+ * test.use({ storageState: personaStorageStatePath('reader') });
+ */
+export function personaStorageStatePath(name: PersonaName): string {
+  return `.auth/personas/${name}.json`;
+}
+
+/**
+ * Write a storage state file carrying the token
+ */
+export function saveStorageState(token: string, baseUrl: string, filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(buildStorageState(token, baseUrl), null, 2));
+}
+
+/**
+ * Log in via the API and write the storage state file for that user
+ */
+export async function loginAndSaveStorageState(
+  request: APIRequestContext,
+  options: { apiUrl: string; baseUrl: string; email: string; password: string; path: string }
+): Promise<User> {
+  const user = await new UserApiClient(request, options.apiUrl).login(
+    options.email,
+    options.password
+  );
+  saveStorageState(user.token, options.baseUrl, options.path);
+  return user;
+}
+
+/**
+ * Seed an existing browser context with a token; applies to pages opened afterwards
+ */
+export async function seedToken(context: BrowserContext, token: string): Promise<void> {
+  await context.addInitScript(
+    `window.localStorage.setItem(${JSON.stringify(TOKEN_STORAGE_KEY)}, ${JSON.stringify(token)});`
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * User Sessions
+ *
+ * Bundles everything a test needs to act as a given user: API clients
+ * authenticated with the user's token, browser storage state, and pages
+ * opened in browser contexts logged in as that user.
+ */
+
+import { APIRequestContext, Browser, BrowserContext, Page } from '@playwright/test';
+import { ArticleApiClient } from '../api/client/article-api-client';
+import { UserApiClient } from '../api/client/user-api-client';
+import { TokenProvider } from '../api/client/token-provider';
+import { buildStorageState, StorageState } from './personas';
+
+/**
+ * A user authenticated for the current test
+ */
+export interface UserSession {
+  /** Token when the session was created (clients with a token provider follow refreshes) */
+  token?: string;
+  /** Article client authenticated as the user */
+  articles: ArticleApiClient;
+  /** User/profile client authenticated as the user */
+  users: UserApiClient;
+  /** Browser storage state logged in as the user, with the token at creation */
+  storageState: StorageState;
+  /** Open a page in a new browser context logged in with the user's current token */
+  newPage(): Promise<Page>;
+}
+
+/**
+ * Creates user sessions for one test and closes their browser contexts afterwards
+ */
+export class UserSessionFactory {
+  private contexts: BrowserContext[] = [];
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly apiUrl: string,
+    private readonly baseUrl: string | undefined,
+    private readonly getBrowser: () => Promise<Browser>
+  ) {}
+
+  /**
+   * Create a session for a token (anonymous when undefined).
+   * Clients use the token provider, when given, to refresh or re-login.
+   */
+  create(token: string | undefined, tokenProvider?: TokenProvider): UserSession {
+    const storageState = buildStorageState(token, this.baseUrl);
+    const options = { tokenProvider };
+
+    return {
+      token,
+      articles: new ArticleApiClient(this.request, this.apiUrl, token, options),
+      users: new UserApiClient(this.request, this.apiUrl, token, options),
+      storageState,
+      newPage: async (): Promise<Page> => {
+        const current = (await tokenProvider?.getToken()) ?? token;
+        const browser = await this.getBrowser();
+        const context = await browser.newContext({
+          baseURL: this.baseUrl,
+          storageState: buildStorageState(current, this.baseUrl),
+        });
+        this.contexts.push(context);
+        return context.newPage();
+      },
+    };
+  }
+
+  /**
+   * Close all browser contexts opened by the sessions
+   */
+  async close(): Promise<void> {
+    for (const context of this.contexts) {
+      await context.close();
+    }
+    this.contexts = [];
+  }
+}
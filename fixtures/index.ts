@@ -3,7 +3,7 @@
  *
  * Exports different fixture combinations based on test needs:
  *
- * 1. test (unified) - Full framework with page objects, API, and cleanup
+ * 1. test (unified) - Full framework: page objects, API, cleanup, logs, personas
  *    Best for: Comprehensive tests that need everything
  *
  * 2. pageObjectTest - Page objects only
@@ -30,13 +30,35 @@ export { test, expect } from './unified';
 export { test as pageObjectTest } from './pom/page-object-fixture';
 export { test as apiTest } from './api/api-request-fixture';
 export { test as cleanupTest } from './test-hooks/cleanup.fixture';
+export { test as apiLogsTest } from './test-hooks/api-logs.fixture';
+export { test as personaTest } from './auth/persona.fixture';
+export { test as freshUserTest } from './auth/fresh-user.fixture';
+export { test as mockApiTest } from './test-hooks/mock-api.fixture';
 
 // Type exports
 export type { PageFixtures } from './pom/page-object-fixture';
 export type { CleanupFixtures, TestArticle } from './test-hooks/cleanup.fixture';
 export type { ApiRequestMethods } from './api/types-guards';
+export type { ApiLogFixtures } from './test-hooks/api-logs.fixture';
+export type { CleanupResource, CleanupOutcome } from './test-hooks/cleanup-registry';
+export type {
+  PersonaFixtures,
+  PersonaWorkerFixtures,
+  PersonaSession,
+} from './auth/persona.fixture';
+export type { PersonaName, Personas, PersonaDefinition } from './auth/personas';
+export type { FreshUser, FreshUserFixtures } from './auth/fresh-user.fixture';
+export type {
+  MockApi,
+  MockApiFixtures,
+  MockApiWorkerFixtures,
+} from './test-hooks/mock-api.fixture';
 
 // Re-export services for direct use
 export { ArticleApiService } from './api/services/article-api.service';
 export { UserApiService } from './api/services/user-api.service';
 export { CleanupManager } from './test-hooks/cleanup.fixture';
+
+// UI network mocks (also available as the apiMocks page fixture)
+export { ApiMocks, toMockArticle, toMockComment } from './pom/api-mocks';
+export type { MockArticleInput, MockCommentInput, MockArticlesOptions } from './pom/api-mocks';
@@ -0,0 +1,326 @@
+/**
+ * UI Network Mocks
+ *
+ * `page.route` helpers that answer the frontend's Conduit API calls, so UI
+ * specs can render empty feeds, pagination, error banners and loading states
+ * without a live backend. Bodies are built from test-data builder output and
+ * validated against the endpoint catalog's zod schemas before they are
+ * served, so a mock cannot drift from the real API shape.
+ *
+ * Requests a mock does not handle (other endpoints, other methods) fall
+ * through to the real API.
+ *
+ * @example
+ * await apiMocks.mockArticles([new ArticleBuilder().withTitle('Mocked').build()]);
+ * await homePage.navigateAsUser();
+ * await homePage.expectArticleCount(1);
+ */
+
+import { Page, Request, Route } from '@playwright/test';
+import { z } from 'zod';
+import { config } from '../../config';
+import { ENDPOINTS, EndpointName } from '../api/endpoints/api-endpoints';
+import { slugify } from '../api/helpers/slug-helpers';
+import {
+  ArticleSchema,
+  ArticleSchemaType,
+  CommentSchema,
+  CommentSchemaType,
+  GenericErrorSchema,
+  ErrorResponseSchema,
+} from '../api/schemas/api-schemas';
+import { ArticleData, CommentData } from '../../test-data/types';
+
+/** Builder output, optionally with response fields (slug, author, favorited, ...) */
+export type MockArticleInput = ArticleData & Partial<ArticleSchemaType>;
+export type MockCommentInput = CommentData & Partial<CommentSchemaType>;
+
+type ArticleFeedEndpoint = 'articles.list' | 'articles.feed';
+
+export interface MockArticlesOptions {
+  /** Total reported to the frontend (default: number of articles) */
+  articlesCount?: number;
+  /** Feeds to answer (default: both the global and the personal feed) */
+  endpoints?: ArticleFeedEndpoint[];
+}
+
+/** Fixed base time, so mocked dates render the same on every run */
+const MOCK_EPOCH = Date.UTC(2024, 0, 1);
+
+const MOCK_AUTHOR = {
+  username: 'mock-author',
+  bio: null,
+  image: 'https://static.productionready.io/images/smiley-cyrus.jpg',
+  following: false,
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+const trimSlashes = (path: string): string => path.replace(/^\/+|\/+$/g, '');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ==================== Response Data ====================
+
+/**
+ * Full article response from builder data; the index orders `createdAt`
+ * (newest first), matching how the API sorts feeds
+ */
+export function toMockArticle(input: MockArticleInput, index: number = 0): ArticleSchemaType {
+  const createdAt = new Date(MOCK_EPOCH - index * 60_000).toISOString();
+  return ArticleSchema.parse({
+    slug: slugify(input.title),
+    createdAt,
+    updatedAt: createdAt,
+    favorited: false,
+    favoritesCount: 0,
+    author: MOCK_AUTHOR,
+    ...input,
+  });
+}
+
+/**
+ * Full comment response from builder data
+ */
+export function toMockComment(input: MockCommentInput, index: number = 0): CommentSchemaType {
+  const createdAt = new Date(MOCK_EPOCH + index * 60_000).toISOString();
+  return CommentSchema.parse({
+    id: index + 1,
+    createdAt,
+    updatedAt: createdAt,
+    author: MOCK_AUTHOR,
+    ...input,
+  });
+}
+
+// ==================== Mocks ====================
+
+/**
+ * Route-based API mocks for one page
+ */
+export class ApiMocks {
+  private readonly origin: string;
+  private readonly basePath: string;
+  private readonly delays: { matches: (request: Request) => boolean; ms: number }[] = [];
+  private readonly delayed = new WeakSet<Request>();
+
+  constructor(
+    private readonly page: Page,
+    apiUrl: string = config.apiUrl
+  ) {
+    const url = new URL(apiUrl);
+    this.origin = url.origin;
+    this.basePath = url.pathname.replace(/\/?$/, '/');
+  }
+
+  /**
+   * Serve a list of articles on the feeds. `limit`/`offset` query parameters
+   * are honoured, so pagination works like on the real API.
+   *
+   * @returns the articles as served
+   */
+  async mockArticles(
+    articles: MockArticleInput[],
+    options: MockArticlesOptions = {}
+  ): Promise<ArticleSchemaType[]> {
+    const served = articles.map((article, index) => toMockArticle(article, index));
+    const articlesCount = options.articlesCount ?? served.length;
+
+    for (const endpoint of options.endpoints ?? ['articles.list', 'articles.feed']) {
+      await this.route(endpoint, {}, async (route) => {
+        const query = new URL(route.request().url()).searchParams;
+        const offset = Number(query.get('offset') ?? 0);
+        const limit = Number(query.get('limit') ?? served.length);
+        await this.fulfill(route, endpoint, {
+          articles: served.slice(offset, offset + limit),
+          articlesCount,
+        });
+      });
+    }
+    return served;
+  }
+
+  /**
+   * Serve a single article (and its comments, when given)
+   *
+   * @returns the article as served
+   */
+  async mockArticle(
+    article: MockArticleInput,
+    comments: MockCommentInput[] = []
+  ): Promise<ArticleSchemaType> {
+    const served = toMockArticle(article);
+    await this.route('articles.get', { slug: served.slug }, (route) =>
+      this.fulfill(route, 'articles.get', { article: served })
+    );
+    await this.mockComments(served.slug, comments);
+    return served;
+  }
+
+  /**
+   * Serve the comments of an article
+   */
+  async mockComments(slug: string, comments: MockCommentInput[]): Promise<CommentSchemaType[]> {
+    const served = comments.map((comment, index) => toMockComment(comment, index));
+    await this.route('comments.list', { slug }, (route) =>
+      this.fulfill(route, 'comments.list', { comments: served })
+    );
+    return served;
+  }
+
+  /**
+   * Serve the popular tags
+   */
+  async mockTags(tags: string[]): Promise<void> {
+    await this.route('tags.list', {}, (route) => this.fulfill(route, 'tags.list', { tags }));
+  }
+
+  /**
+   * Fail loading an article with an HTTP error
+   */
+  async mockArticleError(slug: string, status: number = 500): Promise<void> {
+    await this.mockError('articles.get', status, { slug });
+  }
+
+  /**
+   * Fail an endpoint with an HTTP error. 422 is answered with Conduit's
+   * validation error body, other statuses with the generic error body.
+   */
+  async mockError(
+    endpoint: EndpointName,
+    status: number,
+    params: Record<string, string> = {},
+    errors: z.input<typeof ErrorResponseSchema>['errors'] = { body: ["can't be blank"] }
+  ): Promise<void> {
+    const body =
+      status === 422
+        ? ErrorResponseSchema.parse({ errors })
+        : GenericErrorSchema.parse({
+            status: String(status),
+            error: STATUS_TEXT[status] ?? 'Error',
+          });
+    await this.route(endpoint, params, (route) => this.respond(route, status, body));
+  }
+
+  /**
+   * Delay an endpoint, mocked or real, e.g. to assert loading indicators.
+   * Works regardless of whether it is registered before or after the mock.
+   */
+  async mockSlowResponse(
+    endpoint: EndpointName,
+    delayMs: number,
+    params: Record<string, string> = {}
+  ): Promise<void> {
+    this.delays.push({
+      matches: (request) => this.matches(endpoint, params, request),
+      ms: delayMs,
+    });
+    await this.route(endpoint, params, async (route) => {
+      await this.applyDelay(route.request());
+      await route.fallback();
+    });
+  }
+
+  /**
+   * Remove every mock registered on the page
+   */
+  async clear(): Promise<void> {
+    this.delays.length = 0;
+    await this.page.unrouteAll({ behavior: 'ignoreErrors' });
+  }
+
+  // ==================== Routing ====================
+
+  /**
+   * Route requests to an endpoint (any value for params not given)
+   */
+  private async route(
+    endpoint: EndpointName,
+    params: Record<string, string>,
+    handler: (route: Route) => Promise<void>
+  ): Promise<void> {
+    await this.page.route(
+      (url) => url.origin === this.origin && url.pathname.startsWith(this.basePath),
+      async (route) => {
+        if (!this.matches(endpoint, params, route.request())) {
+          await route.fallback();
+          return;
+        }
+        await handler(route);
+      }
+    );
+  }
+
+  private matches(
+    endpoint: EndpointName,
+    params: Record<string, string>,
+    request: Request
+  ): boolean {
+    const { method, path } = ENDPOINTS[endpoint];
+    if (request.method() !== method) {
+      return false;
+    }
+
+    const requested = decodeURIComponent(
+      trimSlashes(new URL(request.url()).pathname.slice(this.basePath.length))
+    );
+    const source = trimSlashes(path)
+      .split('/')
+      .map((segment) => {
+        const name = segment.startsWith(':') ? segment.slice(1) : segment;
+        if (name === segment) {
+          return escapeRegExp(segment);
+        }
+        return name in params ? escapeRegExp(params[name]) : '[^/]+';
+      })
+      .join('/');
+    if (!new RegExp(`^${source}$`).test(requested)) {
+      return false;
+    }
+
+    // `api/articles/:slug` must not swallow literal paths such as `api/articles/feed`
+    return !Object.values(ENDPOINTS).some(
+      (other) =>
+        other.path !== path && other.method === method && trimSlashes(other.path) === requested
+    );
+  }
+
+  private async applyDelay(request: Request): Promise<void> {
+    if (this.delayed.has(request)) {
+      return;
+    }
+    const delay = this.delays.find(({ matches }) => matches(request));
+    if (delay) {
+      this.delayed.add(request);
+      await new Promise((resolve) => setTimeout(resolve, delay.ms));
+    }
+  }
+
+  /**
+   * Answer with a body validated against the endpoint's response schema
+   */
+  private async fulfill(route: Route, endpoint: EndpointName, body: unknown): Promise<void> {
+    const definition = ENDPOINTS[endpoint];
+    const validated = 'response' in definition ? definition.response.parse(body) : body;
+    await this.respond(route, 200, validated);
+  }
+
+  private async respond(route: Route, status: number, body: unknown): Promise<void> {
+    await this.applyDelay(route.request());
+    await route.fulfill({
+      status,
+      contentType: 'application/json',
+      // The frontend calls the API cross-origin
+      headers: { 'access-control-allow-origin': '*' },
+      body: JSON.stringify(body),
+    });
+  }
+}
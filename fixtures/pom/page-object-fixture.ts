@@ -9,6 +9,7 @@ import { ArticleEditorPage } from '../../pages/article-editor.page';
 import { ArticleViewPage } from '../../pages/article-view.page';
 import { ProfilePage } from '../../pages/profile.page';
 import { NavigationComponent } from '../../pages/components/navigation.component';
+import { ApiMocks } from './api-mocks';
 
 // Legacy pages (for backward compatibility - will be deprecated)
 import { HomePage as HomePageLegacy } from '../../pages/homePage';
@@ -29,6 +30,9 @@ export type PageFixtures = {
   profilePage: ProfilePage;
   navigation: NavigationComponent;
 
+  // Network mocks (page.route based)
+  apiMocks: ApiMocks;
+
   // Legacy pages (deprecated - use new pages instead)
   /** @deprecated Use homePage instead */
   homePageLegacy: HomePageLegacy;
@@ -72,6 +76,11 @@ export const test = base.extend<PageFixtures>({
     await use(new NavigationComponent(page));
   },
 
+  // ==================== Network Mocks ====================
+  apiMocks: async ({ page }, use) => {
+    await use(new ApiMocks(page));
+  },
+
   // ==================== Legacy Pages (Deprecated) ====================
   homePageLegacy: async ({ page }, use) => {
     await use(new HomePageLegacy(page));
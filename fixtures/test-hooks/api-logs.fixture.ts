@@ -0,0 +1,61 @@
+import { test as base } from '@playwright/test';
+import {
+  ApiLogCollector,
+  formatLogEntry,
+  redactLogEntry,
+  RedactionRules,
+  resolveRedactionRules,
+} from '../api/logging';
+
+/**
+ * API traffic log fixture types
+ */
+export interface ApiLogFixtures {
+  /**
+   * Collector of all API client logs made during the test.
+   * Runs automatically; the traffic is attached to the test report after the test.
+   */
+  apiLogs: ApiLogCollector;
+
+  /**
+   * Redaction rules applied to the attached traffic (configurable via `use` in the config)
+   */
+  apiLogRedaction: Partial<RedactionRules>;
+}
+
+export const test = base.extend<ApiLogFixtures>({
+  apiLogRedaction: [{}, { option: true }],
+
+  /**
+   * API log collector - attaches API traffic to the report after each test
+   */
+  apiLogs: [
+    async ({ apiLogRedaction }, use, testInfo): Promise<void> => {
+      const collector = new ApiLogCollector();
+      collector.start();
+
+      await use(collector);
+
+      collector.stop();
+      const rules = resolveRedactionRules(apiLogRedaction);
+      const entries = collector.getEntries().map((entry) => redactLogEntry(entry, rules));
+      if (entries.length === 0) {
+        return;
+      }
+
+      await testInfo.attach('api-traffic.json', {
+        body: JSON.stringify(entries, null, 2),
+        contentType: 'application/json',
+      });
+
+      await base.step(`API traffic (${entries.length} calls)`, async (): Promise<void> => {
+        for (const entry of entries) {
+          await base.step(formatLogEntry(entry), async (): Promise<void> => {});
+        }
+      });
+    },
+    { auto: true },
+  ],
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,71 @@
+/**
+ * Orphaned Article Sweeper
+ *
+ * Finds articles authored by the test user whose title carries the
+ * `[<timestamp>]` prefix from `ArticleBuilder.withTimestampPrefix()` and
+ * deletes those older than a given age. Catches leftovers that never made
+ * it into a cleanup ledger.
+ */
+
+import { ArticleApiClient } from '../api/client/article-api-client';
+import { Article } from '../api/types';
+import { CleanupOutcome, runUndo } from './cleanup-registry';
+
+/** Matches the `[1712345678901] ` title prefix added by withTimestampPrefix() */
+const TIMESTAMP_PREFIX = /^\[(\d{13})\] /;
+
+export interface SweepOptions {
+  /** Username of the test user whose articles are swept */
+  author: string;
+  /** Only delete articles older than this many hours (default: 24) */
+  maxAgeHours?: number;
+  /** Reference time (default: now) */
+  now?: number;
+}
+
+/**
+ * Creation time encoded in a timestamp-prefixed title, if any
+ */
+export function parseTimestampPrefix(title: string): number | undefined {
+  const match = TIMESTAMP_PREFIX.exec(title);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Find timestamp-prefixed articles of the author older than `maxAgeHours`
+ */
+export async function findOrphanedArticles(
+  client: ArticleApiClient,
+  options: SweepOptions
+): Promise<Article[]> {
+  const cutoff = (options.now ?? Date.now()) - (options.maxAgeHours ?? 24) * 60 * 60 * 1000;
+  const orphans: Article[] = [];
+
+  for await (const article of client.iterateArticles({ author: options.author })) {
+    const timestamp = parseTimestampPrefix(article.title);
+    if (timestamp !== undefined && timestamp < cutoff) {
+      orphans.push(article);
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Delete orphaned test articles
+ * Articles are collected before deleting so offset paging is not disturbed
+ */
+export async function sweepOrphanedArticles(
+  client: ArticleApiClient,
+  options: SweepOptions
+): Promise<CleanupOutcome[]> {
+  const orphans = await findOrphanedArticles(client, options);
+
+  const outcomes: CleanupOutcome[] = [];
+  for (const { slug } of orphans) {
+    outcomes.push(
+      await runUndo({ type: 'article', id: slug, undo: () => client.deleteArticle(slug) })
+    );
+  }
+  return outcomes;
+}
@@ -0,0 +1,251 @@
+/**
+ * Persistent Cleanup Ledger
+ *
+ * Append-only, on-disk record of resources registered for cleanup, so that
+ * resources survive a crashed or killed worker. Each worker writes its own
+ * JSONL file; entries are settled once cleaned (or found already gone).
+ * The `cleanup` teardown project replays every pending entry via the typed
+ * endpoint catalog, as the persona that owns the resource. Entries that keep
+ * failing or are too old are dropped, so the ledger cannot grow forever.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientOptions, BaseApiClient } from '../api/client/base-api-client';
+import { EndpointName, RawEndpointInput } from '../api/endpoints';
+import type { PersonaName } from '../auth/personas';
+import {
+  CleanupOutcome,
+  CleanupResource,
+  CleanupRunOptions,
+  CleanupStatus,
+  resourceKey,
+  runCleanupActions,
+} from './cleanup-registry';
+import { config } from '../../config';
+
+/**
+ * Undo action expressed as an endpoint call, so it can be replayed from disk
+ */
+export interface ReplayableAction {
+  endpoint: EndpointName;
+  input?: RawEndpointInput;
+  /** Persona whose token replays the action (default: author) */
+  owner?: PersonaName;
+}
+
+/** Why a resource no longer needs cleanup */
+export type SettleStatus = CleanupStatus | 'unregistered' | 'expired';
+
+export type LedgerEntry =
+  | {
+      op: 'register';
+      type: string;
+      id: string;
+      action: ReplayableAction;
+      dependsOn?: string[];
+      at: string;
+    }
+  | { op: 'attempt'; type: string; id: string; error?: string; at: string }
+  | { op: 'settle'; type: string; id: string; status: SettleStatus; at: string };
+
+/**
+ * Resource still awaiting cleanup according to a ledger file
+ */
+export interface PendingResource {
+  type: string;
+  id: string;
+  action: ReplayableAction;
+  dependsOn?: string[];
+  /** When the resource was registered (ISO date) */
+  registeredAt: string;
+  /** Failed replays so far */
+  attempts: number;
+}
+
+export interface LedgerReplayOptions extends CleanupRunOptions {
+  /** Drop entries after this many failed replays (default: CLEANUP_LEDGER_MAX_ATTEMPTS) */
+  maxAttempts?: number;
+  /** Drop entries registered longer ago than this (default: CLEANUP_LEDGER_MAX_AGE_HOURS) */
+  maxAgeHours?: number;
+}
+
+export interface LedgerReplayOutcome extends CleanupOutcome {
+  ledger: string;
+}
+
+/** Directory holding the ledger files (CLEANUP_LEDGER_DIR in the env config) */
+export function ledgerDir(): string {
+  return config.cleanupLedgerDir;
+}
+
+/**
+ * Append-only ledger file owned by one worker process
+ */
+export class CleanupLedger {
+  constructor(readonly file: string) {}
+
+  /**
+   * Record a resource that must be undone
+   */
+  recordRegistered(type: string, id: string, action: ReplayableAction, dependsOn?: string[]): void {
+    this.append({ op: 'register', type, id, action, dependsOn, at: new Date().toISOString() });
+  }
+
+  /**
+   * Record a failed replay of a resource that stays pending
+   */
+  recordAttempt(type: string, id: string, error?: string): void {
+    this.append({ op: 'attempt', type, id, error, at: new Date().toISOString() });
+  }
+
+  /**
+   * Record that a resource no longer needs cleanup
+   */
+  recordSettled(type: string, id: string, status: SettleStatus): void {
+    this.append({ op: 'settle', type, id, status, at: new Date().toISOString() });
+  }
+
+  private append(entry: LedgerEntry): void {
+    // Synchronous append so the entry is on disk even if the worker dies right after
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, `${JSON.stringify(entry)}\n`);
+  }
+}
+
+let workerLedger: CleanupLedger | undefined;
+
+/**
+ * Ledger of the current worker process (one file per process)
+ */
+export function getWorkerLedger(): CleanupLedger {
+  workerLedger ??= new CleanupLedger(path.join(ledgerDir(), `${Date.now()}-${process.pid}.jsonl`));
+  return workerLedger;
+}
+
+/**
+ * Read the resources still pending in a ledger file, in registration order.
+ * A partially written trailing line (crash mid-write) is ignored.
+ */
+export function readPendingResources(file: string): PendingResource[] {
+  const pending = new Map<string, PendingResource>();
+
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    let entry: LedgerEntry;
+    try {
+      entry = JSON.parse(line) as LedgerEntry;
+    } catch {
+      continue;
+    }
+
+    const key = resourceKey(entry.type, entry.id);
+    if (entry.op === 'attempt') {
+      const resource = pending.get(key);
+      if (resource) {
+        resource.attempts++;
+      }
+      continue;
+    }
+
+    pending.delete(key);
+    if (entry.op === 'register') {
+      const { type, id, action, dependsOn, at } = entry;
+      pending.set(key, { type, id, action, dependsOn, registeredAt: at, attempts: 0 });
+    }
+  }
+
+  return [...pending.values()];
+}
+
+/**
+ * Client that executes replayable actions through the endpoint catalog
+ */
+export class LedgerReplayClient extends BaseApiClient {
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    options?: ApiClientOptions
+  ) {
+    super(request, baseUrl, token, options);
+  }
+
+  /**
+   * Execute a recorded undo action
+   */
+  async replay(action: ReplayableAction): Promise<void> {
+    await this.callRaw(action.endpoint, action.input);
+  }
+}
+
+/**
+ * Check whether a pending resource has used up its attempts or is too old to replay
+ */
+function isExpired(
+  resource: PendingResource,
+  maxAttempts: number,
+  maxAgeHours: number,
+  now: number
+): boolean {
+  const ageMs = now - new Date(resource.registeredAt).getTime();
+  return resource.attempts >= maxAttempts || ageMs > maxAgeHours * 60 * 60 * 1000;
+}
+
+/**
+ * Replay every pending entry of every ledger file, respecting recorded dependencies.
+ * Each entry is replayed with the client of its owner persona. Ledger files with
+ * nothing left pending are deleted; failed entries stay in the ledger for the
+ * next replay until they expire (see `LedgerReplayOptions`).
+ */
+export async function replayLedgers(
+  clientFor: (owner: PersonaName) => LedgerReplayClient,
+  dir: string = ledgerDir(),
+  options?: LedgerReplayOptions
+): Promise<LedgerReplayOutcome[]> {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const maxAttempts = options?.maxAttempts ?? config.cleanupLedgerMaxAttempts;
+  const maxAgeHours = options?.maxAgeHours ?? config.cleanupLedgerMaxAgeHours;
+  const outcomes: LedgerReplayOutcome[] = [];
+  const files = fs.readdirSync(dir).filter((name) => name.endsWith('.jsonl'));
+
+  for (const name of files) {
+    const file = path.join(dir, name);
+    const ledger = new CleanupLedger(file);
+    const now = Date.now();
+
+    const resources: CleanupResource[] = [];
+    for (const resource of readPendingResources(file)) {
+      if (isExpired(resource, maxAttempts, maxAgeHours, now)) {
+        console.warn(
+          `Dropping cleanup ledger entry ${resourceKey(resource.type, resource.id)} ` +
+            `after ${resource.attempts} failed attempt(s) (registered ${resource.registeredAt})`
+        );
+        ledger.recordSettled(resource.type, resource.id, 'expired');
+        continue;
+      }
+      resources.push({
+        ...resource,
+        undo: () => clientFor(resource.action.owner ?? 'author').replay(resource.action),
+      });
+    }
+
+    for (const outcome of await runCleanupActions(resources, options)) {
+      if (outcome.status === 'failed') {
+        ledger.recordAttempt(outcome.type, outcome.id, outcome.error);
+      } else {
+        ledger.recordSettled(outcome.type, outcome.id, outcome.status);
+      }
+      outcomes.push({ ...outcome, ledger: file });
+    }
+
+    if (readPendingResources(file).length === 0) {
+      fs.rmSync(file);
+    }
+  }
+
+  return outcomes;
+}
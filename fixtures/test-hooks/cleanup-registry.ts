@@ -0,0 +1,272 @@
+/**
+ * Cleanup Resource Registry
+ *
+ * Generic registry of undo actions for resources created during a test
+ * (articles, comments, favorites, follows, user settings, ...).
+ * Actions run concurrently up to a limit; a resource is only undone after
+ * every resource that declared a dependency on it (e.g. comments before
+ * their article). Every item reports its own outcome, which is attached to
+ * the test and checked against the configured failure policy.
+ */
+
+import type { TestInfo } from '@playwright/test';
+import { ApiError, describeError, NotFoundError } from '../api/errors';
+import type { ReplayableAction } from './cleanup-ledger';
+
+/**
+ * A resource registered for cleanup
+ */
+export interface CleanupResource {
+  /** Resource kind, e.g. 'article', 'comment', 'favorite' */
+  type: string;
+  /** Identifier unique within the type, e.g. slug or `slug/commentId` */
+  id: string;
+  /** Action that reverts the resource */
+  undo: () => Promise<unknown>;
+  /** Same action as an endpoint call; persisted to the cleanup ledger when given */
+  replay?: ReplayableAction;
+  /**
+   * Keys (see `resourceKey`) of resources this one depends on; they are undone
+   * only after this resource. Keys that are not registered are ignored.
+   */
+  dependsOn?: string[];
+}
+
+export interface CleanupRunOptions {
+  /** Maximum number of undo actions running at once (default: 4) */
+  concurrency?: number;
+}
+
+export const DEFAULT_CLEANUP_CONCURRENCY = 4;
+
+/**
+ * Registry key of a resource, used to declare dependencies
+ */
+export function resourceKey(type: string, id: string): string {
+  return `${type}:${id}`;
+}
+
+export type CleanupStatus = 'cleaned' | 'already-gone' | 'failed';
+
+/**
+ * Result of running one undo action
+ */
+export interface CleanupOutcome {
+  type: string;
+  id: string;
+  status: CleanupStatus;
+  durationMs: number;
+  /** HTTP status of the failed undo request, when it reached the API */
+  httpStatus?: number;
+  /** Log-friendly description of the failure */
+  error?: string;
+}
+
+/**
+ * What to do when cleanup fails for reasons other than 404:
+ * - ignore: only record the outcome in the report
+ * - warn: log the failure and annotate the test
+ * - fail: fail the test
+ */
+export type CleanupFailurePolicy = 'ignore' | 'warn' | 'fail';
+
+/** Name of the per-test attachment holding the cleanup outcomes */
+export const CLEANUP_REPORT_ATTACHMENT = 'cleanup-report';
+
+/**
+ * Error raised by the 'fail' policy when resources were leaked
+ */
+export class CleanupError extends Error {
+  constructor(public readonly failures: CleanupOutcome[]) {
+    super(
+      [`Cleanup failed for ${failures.length} resource(s):`, ...formatFailures(failures)].join('\n')
+    );
+    this.name = 'CleanupError';
+    Object.setPrototypeOf(this, CleanupError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] ${this.message}`;
+  }
+}
+
+/**
+ * Registry of undo actions
+ */
+export class ResourceRegistry {
+  private resources: CleanupResource[] = [];
+
+  /**
+   * Register a resource; registering the same type/id twice keeps the first entry
+   */
+  register(resource: CleanupResource): void {
+    if (!this.has(resource.type, resource.id)) {
+      this.resources.push(resource);
+    }
+  }
+
+  /**
+   * Remove a resource (use when the test already reverted it)
+   */
+  unregister(type: string, id: string): void {
+    this.resources = this.resources.filter((r) => !(r.type === type && r.id === id));
+  }
+
+  has(type: string, id: string): boolean {
+    return this.resources.some((r) => r.type === type && r.id === id);
+  }
+
+  /**
+   * Registered resources in registration order
+   */
+  list(): CleanupResource[] {
+    return [...this.resources];
+  }
+
+  get size(): number {
+    return this.resources.length;
+  }
+
+  /**
+   * Run all undo actions (see `runCleanupActions`) and empty the registry.
+   * A 404 counts as 'already-gone'; other errors are reported as 'failed'.
+   */
+  async drain(options?: CleanupRunOptions): Promise<CleanupOutcome[]> {
+    const pending = this.resources;
+    this.resources = [];
+    return runCleanupActions(pending, options);
+  }
+}
+
+/**
+ * Run undo actions with bounded concurrency, respecting declared dependencies:
+ * a resource starts only once every registered resource depending on it has
+ * finished (whatever its outcome). Among ready resources the most recently
+ * registered starts first. If the dependencies form a cycle, the remaining
+ * resources run in that order regardless.
+ *
+ * Outcomes are returned in completion order.
+ */
+export async function runCleanupActions(
+  resources: CleanupResource[],
+  options?: CleanupRunOptions
+): Promise<CleanupOutcome[]> {
+  const concurrency = Math.max(1, options?.concurrency ?? DEFAULT_CLEANUP_CONCURRENCY);
+  const keyOf = (r: CleanupResource): string => resourceKey(r.type, r.id);
+  const dependenciesOf = (r: CleanupResource): string[] =>
+    [...new Set(r.dependsOn ?? [])].filter((key) => key !== keyOf(r));
+
+  // Number of unfinished dependents per resource
+  const dependents = new Map(resources.map((r) => [keyOf(r), 0]));
+  for (const resource of resources) {
+    for (const key of dependenciesOf(resource)) {
+      const count = dependents.get(key);
+      if (count !== undefined) {
+        dependents.set(key, count + 1);
+      }
+    }
+  }
+
+  const pending = [...resources].reverse();
+  const running = new Set<Promise<void>>();
+  const outcomes: CleanupOutcome[] = [];
+
+  const start = (resource: CleanupResource): void => {
+    const task: Promise<void> = runUndo(resource).then((outcome) => {
+      outcomes.push(outcome);
+      running.delete(task);
+      for (const key of dependenciesOf(resource)) {
+        const count = dependents.get(key);
+        if (count !== undefined) {
+          dependents.set(key, count - 1);
+        }
+      }
+    });
+    running.add(task);
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    while (running.size < concurrency && pending.length > 0) {
+      let index = pending.findIndex((r) => dependents.get(keyOf(r)) === 0);
+      if (index === -1 && running.size === 0) {
+        // Dependency cycle: nothing can become ready, fall back to reverse registration order
+        index = 0;
+      }
+      if (index === -1) {
+        break;
+      }
+      start(pending.splice(index, 1)[0]);
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Run a single undo action and capture its outcome
+ */
+export async function runUndo(resource: CleanupResource): Promise<CleanupOutcome> {
+  const start = Date.now();
+  const { type, id } = resource;
+
+  try {
+    await resource.undo();
+    return { type, id, status: 'cleaned', durationMs: Date.now() - start };
+  } catch (error) {
+    const durationMs = Date.now() - start;
+    if (error instanceof NotFoundError) {
+      return { type, id, status: 'already-gone', durationMs };
+    }
+    const httpStatus = error instanceof ApiError ? error.status : undefined;
+    return { type, id, status: 'failed', durationMs, httpStatus, error: describeError(error) };
+  }
+}
+
+// ==================== Reporting ====================
+
+/**
+ * Format failed outcomes, one line each
+ */
+function formatFailures(outcomes: CleanupOutcome[]): string[] {
+  return outcomes
+    .filter((o) => o.status === 'failed')
+    .map((o) => `  ${o.type} '${o.id}'${o.httpStatus ? ` (${o.httpStatus})` : ''}: ${o.error}`);
+}
+
+/**
+ * Attach the cleanup outcomes to the test and apply the failure policy
+ */
+export async function reportCleanupOutcomes(
+  outcomes: CleanupOutcome[],
+  policy: CleanupFailurePolicy,
+  testInfo: TestInfo
+): Promise<void> {
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  await testInfo.attach(CLEANUP_REPORT_ATTACHMENT, {
+    body: JSON.stringify(outcomes, null, 2),
+    contentType: 'application/json',
+  });
+
+  const failed = outcomes.filter((o) => o.status === 'failed');
+  if (failed.length === 0 || policy === 'ignore') {
+    return;
+  }
+
+  const error = new CleanupError(failed);
+  if (policy === 'fail') {
+    throw error;
+  }
+
+  console.warn(error.toLogString());
+  testInfo.annotations.push({
+    type: 'cleanup-failure',
+    description: failed.map((o) => `${o.type} '${o.id}'`).join(', '),
+  });
+}
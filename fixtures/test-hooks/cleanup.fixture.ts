@@ -1,56 +1,232 @@
-import { test as base, APIRequestContext } from '@playwright/test';
+import { APIRequestContext } from '@playwright/test';
+import { ArticleApiClient } from '../api/client/article-api-client';
+import { TokenProvider } from '../api/client/token-provider';
+import { UNIQUE_CREATE_RETRY } from '../api/client/retry-policy';
+import { UserApiClient } from '../api/client/user-api-client';
+import { UpdateUserPayload } from '../api/types';
 import { ArticleApiService } from '../api/services/article-api.service';
 import { UserApiService } from '../api/services/user-api.service';
 import { ArticleBuilder } from '../../test-data/builders';
 import { ArticleData } from '../../test-data/types';
+import {
+  CleanupFailurePolicy,
+  CleanupOutcome,
+  CleanupResource,
+  CleanupRunOptions,
+  CleanupStatus,
+  DEFAULT_CLEANUP_CONCURRENCY,
+  reportCleanupOutcomes,
+  resourceKey,
+  ResourceRegistry,
+} from './cleanup-registry';
+import { CleanupLedger, getWorkerLedger } from './cleanup-ledger';
+import { test as personaFixture } from '../auth/persona.fixture';
+import type { PersonaName } from '../auth/personas';
+import { config } from '../../config';
 
 /**
  * Cleanup manager for tracking and cleaning up test resources
+ *
+ * Any created resource can register an undo action; actions run after the
+ * test with bounded concurrency, respecting declared dependencies (comments
+ * and favorites before their article), and report a per-item outcome.
+ * Resources with a replayable action are also written to the on-disk cleanup
+ * ledger, so they can still be removed by the `cleanup` teardown project if the
+ * worker dies. The teardown replays them as `owner`, the persona whose token
+ * the manager acts with.
  */
 export class CleanupManager {
-  private articleSlugs: string[] = [];
-  private articleService: ArticleApiService;
+  private registry = new ResourceRegistry();
+  private outcomes: CleanupOutcome[] = [];
+  private articleClient: ArticleApiClient;
+  private userClient: UserApiClient;
+  private ledgered = new Set<string>();
 
-  constructor(request: APIRequestContext, baseUrl: string, token?: string) {
-    this.articleService = new ArticleApiService(request, baseUrl, token);
+  constructor(
+    request: APIRequestContext,
+    baseUrl: string,
+    token?: string,
+    private readonly ledger?: CleanupLedger,
+    private readonly owner: PersonaName = 'author'
+  ) {
+    this.articleClient = new ArticleApiClient(request, baseUrl, token);
+    this.userClient = new UserApiClient(request, baseUrl, token);
+  }
+
+  // ==================== Generic Registry ====================
+
+  /**
+   * Register any resource with its undo action
+   *
+   * @example
+   * cleanup.register({
+   *   type: 'bookmark',
+   *   id,
+   *   undo: () => api.removeBookmark(id),
+   *   dependsOn: [resourceKey('article', slug)],
+   * });
+   */
+  register(resource: CleanupResource): void {
+    const { type, id, replay } = resource;
+    if (this.registry.has(type, id)) {
+      return;
+    }
+
+    this.registry.register(resource);
+    if (replay && this.ledger) {
+      this.ledger.recordRegistered(type, id, { owner: this.owner, ...replay }, resource.dependsOn);
+      this.ledgered.add(resourceKey(type, id));
+    }
+  }
+
+  /**
+   * Unregister a resource (use when the test already reverted it)
+   */
+  unregister(type: string, id: string): void {
+    this.registry.unregister(type, id);
+    this.settle(type, id, 'unregistered');
+  }
+
+  /**
+   * Resources still pending cleanup, in registration order
+   */
+  getRegistered(): CleanupResource[] {
+    return this.registry.list();
   }
 
+  /**
+   * Outcomes of all cleanup runs so far
+   */
+  getOutcomes(): CleanupOutcome[] {
+    return [...this.outcomes];
+  }
+
+  // ==================== Articles ====================
+
   /**
    * Register an article for cleanup after test
    */
   registerArticle(slug: string): void {
-    if (!this.articleSlugs.includes(slug)) {
-      this.articleSlugs.push(slug);
-    }
+    this.register({
+      type: 'article',
+      id: slug,
+      undo: () => this.articleClient.deleteArticle(slug),
+      replay: { endpoint: 'articles.delete', input: { slug } },
+    });
   }
 
   /**
    * Unregister an article (use when manually deleting an article)
    */
   unregisterArticle(slug: string): void {
-    this.articleSlugs = this.articleSlugs.filter((s) => s !== slug);
+    this.unregister('article', slug);
+  }
+
+  /**
+   * Register a comment for deletion after test
+   */
+  registerComment(slug: string, commentId: number): void {
+    this.register({
+      type: 'comment',
+      id: `${slug}/${commentId}`,
+      undo: () => this.articleClient.deleteComment(slug, commentId),
+      replay: { endpoint: 'comments.delete', input: { slug, id: commentId } },
+      dependsOn: [resourceKey('article', slug)],
+    });
+  }
+
+  /**
+   * Register a favorited article to be unfavorited after test
+   */
+  registerFavorite(slug: string): void {
+    this.register({
+      type: 'favorite',
+      id: slug,
+      undo: () => this.articleClient.unfavoriteArticle(slug),
+      replay: { endpoint: 'articles.unfavorite', input: { slug } },
+      dependsOn: [resourceKey('article', slug)],
+    });
+  }
+
+  // ==================== Users ====================
+
+  /**
+   * Register a followed user to be unfollowed after test
+   */
+  registerFollow(username: string): void {
+    this.register({
+      type: 'follow',
+      id: username,
+      undo: () => this.userClient.unfollowUser(username),
+      replay: { endpoint: 'profiles.unfollow', input: { username } },
+      dependsOn: [resourceKey('user', username)],
+    });
+  }
+
+  /**
+   * Register user settings to be restored after test
+   */
+  registerUserSettings(previous: UpdateUserPayload['user']): void {
+    this.register({
+      type: 'user-settings',
+      id: 'current',
+      undo: () => this.userClient.updateUser(previous),
+      replay: { endpoint: 'users.update', input: { body: { user: previous } } },
+    });
+  }
+
+  /**
+   * Snapshot the current user's settings and restore them after test
+   */
+  async snapshotUserSettings(): Promise<void> {
+    const { email, username, bio, image } = await this.userClient.getCurrentUser();
+    this.registerUserSettings({ email, username, bio, image });
   }
 
   /**
    * Update token (useful when token is obtained during test)
    */
   setToken(token: string): void {
-    this.articleService.setToken(token);
+    this.articleClient.setToken(token);
+    this.userClient.setToken(token);
+  }
+
+  /**
+   * Share a token provider, so undo actions use refreshed tokens
+   */
+  setTokenProvider(provider: TokenProvider | undefined): void {
+    this.articleClient.setTokenProvider(provider);
+    this.userClient.setTokenProvider(provider);
   }
 
+  // ==================== Cleanup ====================
+
   /**
-   * Clean up all registered resources
+   * Clean up all registered resources (dependents first, up to `concurrency` at once)
+   * Resources that are already gone (404) are reported as 'already-gone'
    */
-  async cleanup(): Promise<void> {
-    // Clean up articles in reverse order (LIFO)
-    for (const slug of this.articleSlugs.reverse()) {
-      try {
-        await this.articleService.deleteArticle(slug);
-      } catch {
-        // Ignore errors - article may already be deleted
+  async cleanup(options?: CleanupRunOptions): Promise<CleanupOutcome[]> {
+    const outcomes = await this.registry.drain(options);
+
+    // Failed resources stay pending in the ledger for the teardown replay
+    for (const { type, id, status } of outcomes) {
+      if (status !== 'failed') {
+        this.settle(type, id, status);
       }
     }
-    this.articleSlugs = [];
+
+    this.outcomes = [...this.outcomes, ...outcomes];
+    return this.getOutcomes();
+  }
+
+  /**
+   * Mark a ledgered resource as no longer needing cleanup
+   */
+  private settle(type: string, id: string, status: CleanupStatus | 'unregistered'): void {
+    const key = resourceKey(type, id);
+    if (this.ledger && this.ledgered.delete(key)) {
+      this.ledger.recordSettled(type, id, status);
+    }
   }
 }
 
@@ -74,6 +250,16 @@ export interface CleanupFixtures {
    */
   cleanup: CleanupManager;
 
+  /**
+   * What to do when cleanup fails for reasons other than 404 (configurable via `use` in the config)
+   */
+  cleanupPolicy: CleanupFailurePolicy;
+
+  /**
+   * Maximum number of cleanup actions running at once (configurable via `use` in the config)
+   */
+  cleanupConcurrency: number;
+
   /**
    * Article API service for direct API operations
    */
@@ -90,32 +276,41 @@ export interface CleanupFixtures {
   testArticle: TestArticle;
 }
 
-export const test = base.extend<CleanupFixtures>({
+export const test = personaFixture.extend<CleanupFixtures>({
+  cleanupPolicy: ['warn', { option: true }],
+  cleanupConcurrency: [DEFAULT_CLEANUP_CONCURRENCY, { option: true }],
+
   /**
    * Cleanup manager - automatically cleans up after each test
+   * and attaches the outcome report. Acts as the author persona.
    */
-  cleanup: async ({ request }, use) => {
+  cleanup: async (
+    { request, personaSessions, cleanupPolicy, cleanupConcurrency },
+    use,
+    testInfo
+  ): Promise<void> => {
     const cleanup = new CleanupManager(
       request,
-      process.env.API_URL || '',
-      process.env.ACCESS_TOKEN
+      config.apiUrl,
+      config.accessToken,
+      getWorkerLedger()
     );
+    cleanup.setTokenProvider(personaSessions.authSession('author'));
 
     await use(cleanup);
 
     // Automatic cleanup after test
-    await cleanup.cleanup();
+    const outcomes = await cleanup.cleanup({ concurrency: cleanupConcurrency });
+    await reportCleanupOutcomes(outcomes, cleanupPolicy, testInfo);
   },
 
   /**
-   * Article API service with authentication
+   * Article API service authenticated as the author persona
    */
-  articleApi: async ({ request }, use) => {
-    const service = new ArticleApiService(
-      request,
-      process.env.API_URL || '',
-      process.env.ACCESS_TOKEN
-    );
+  articleApi: async ({ request, personaSessions }, use) => {
+    const service = new ArticleApiService(request, config.apiUrl, config.accessToken, {
+      tokenProvider: personaSessions.authSession('author'),
+    });
     await use(service);
   },
 
@@ -123,7 +318,7 @@ export const test = base.extend<CleanupFixtures>({
    * User API service
    */
   userApi: async ({ request }, use) => {
-    const service = new UserApiService(request, process.env.API_URL || '');
+    const service = new UserApiService(request, config.apiUrl);
     await use(service);
   },
 
@@ -135,7 +330,10 @@ export const test = base.extend<CleanupFixtures>({
     // Create article before test
     const articleData = new ArticleBuilder().withTimestampPrefix().buildPayload();
 
-    const { slug, article } = await articleApi.createArticle(articleData);
+    // The timestamp prefix makes the title unique, so gateway errors can be retried
+    const { slug, article } = await articleApi.createArticle(articleData, {
+      retry: UNIQUE_CREATE_RETRY,
+    });
 
     // Register for cleanup
     cleanup.registerArticle(slug);
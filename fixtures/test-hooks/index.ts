@@ -1,2 +1,44 @@
 export { test, expect, CleanupManager } from './cleanup.fixture';
 export type { CleanupFixtures, TestArticle } from './cleanup.fixture';
+export { test as apiLogsTest } from './api-logs.fixture';
+export type { ApiLogFixtures } from './api-logs.fixture';
+export { test as mockApiTest } from './mock-api.fixture';
+export type { MockApi, MockApiFixtures, MockApiWorkerFixtures } from './mock-api.fixture';
+export {
+  ResourceRegistry,
+  runUndo,
+  runCleanupActions,
+  resourceKey,
+  DEFAULT_CLEANUP_CONCURRENCY,
+  reportCleanupOutcomes,
+  CleanupError,
+  CLEANUP_REPORT_ATTACHMENT,
+} from './cleanup-registry';
+export type {
+  CleanupResource,
+  CleanupOutcome,
+  CleanupStatus,
+  CleanupFailurePolicy,
+  CleanupRunOptions,
+} from './cleanup-registry';
+export {
+  CleanupLedger,
+  LedgerReplayClient,
+  getWorkerLedger,
+  ledgerDir,
+  readPendingResources,
+  replayLedgers,
+} from './cleanup-ledger';
+export type {
+  ReplayableAction,
+  LedgerEntry,
+  LedgerReplayOptions,
+  PendingResource,
+  SettleStatus,
+} from './cleanup-ledger';
+export {
+  findOrphanedArticles,
+  parseTimestampPrefix,
+  sweepOrphanedArticles,
+} from './article-sweeper';
+export type { SweepOptions } from './article-sweeper';
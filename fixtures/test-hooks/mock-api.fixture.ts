@@ -0,0 +1,70 @@
+import { test as base } from '@playwright/test';
+import { ConduitMockServer, SeedUser } from '../../mock-server';
+
+/**
+ * A running mock Conduit API
+ */
+export interface MockApi {
+  server: ConduitMockServer;
+  /** URL clients should use as API_URL */
+  apiUrl: string;
+}
+
+/**
+ * Mock API fixture types
+ */
+export interface MockApiFixtures {
+  /**
+   * In-memory Conduit API for client tests; faults, the request log and the
+   * store are reset after each test
+   *
+   * @example
+   * test.use({ mockApiUsers: [user] });
+   *
+   * test('retries', async ({ mockApi: { server, apiUrl }, request }) => {
+   *   server.inject('tags.list', { status: 503 });
+   *   await new TagApiClient(request, apiUrl).getTags();
+   * });
+   */
+  mockApi: MockApi;
+}
+
+export interface MockApiWorkerFixtures {
+  /**
+   * Users seeded into the mock store (configurable via `use`)
+   */
+  mockApiUsers: SeedUser[];
+
+  /**
+   * Mock server shared by all tests of the worker, started on first use
+   */
+  mockApiWorker: MockApi;
+}
+
+export const test = base.extend<MockApiFixtures, MockApiWorkerFixtures>({
+  mockApiUsers: [[], { option: true, scope: 'worker' }],
+
+  mockApiWorker: [
+    async ({ mockApiUsers }, use): Promise<void> => {
+      const server = new ConduitMockServer({ users: mockApiUsers });
+      const apiUrl = await server.start();
+
+      await use({ server, apiUrl });
+
+      await server.stop();
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * Per-test view of the worker's mock server, reset once the test is done
+   */
+  mockApi: async ({ mockApiWorker }, use): Promise<void> => {
+    await use(mockApiWorker);
+
+    mockApiWorker.server.resetFaults();
+    mockApiWorker.server.store.reset();
+  },
+});
+
+export { expect } from '@playwright/test';
@@ -1,2 +1,16 @@
 export { test, expect } from './test.fixture';
-export type { PageFixtures, CleanupFixtures, TestArticle, ApiRequestMethods } from './test.fixture';
+export type {
+  PageFixtures,
+  CleanupFixtures,
+  TestArticle,
+  ApiRequestMethods,
+  ApiLogFixtures,
+  PersonaFixtures,
+  PersonaWorkerFixtures,
+  PersonaSession,
+  FreshUser,
+  FreshUserFixtures,
+  MockApi,
+  MockApiFixtures,
+  MockApiWorkerFixtures,
+} from './test.fixture';
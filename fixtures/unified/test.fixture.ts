@@ -2,12 +2,20 @@ import { mergeTests } from '@playwright/test';
 import { test as pageObjectFixture, expect } from '../pom/page-object-fixture';
 import { test as apiRequestFixture } from '../api/api-request-fixture';
 import { test as cleanupFixture } from '../test-hooks/cleanup.fixture';
+import { test as apiLogsFixture } from '../test-hooks/api-logs.fixture';
+import { test as personaFixture } from '../auth/persona.fixture';
+import { test as freshUserFixture } from '../auth/fresh-user.fixture';
+import { test as mockApiFixture } from '../test-hooks/mock-api.fixture';
 
 /**
  * Unified test fixture that combines:
  * - Page Object fixtures (all page objects)
  * - API Request fixtures (apiRequest function)
  * - Cleanup fixtures (cleanup manager, API services, testArticle)
+ * - API log fixtures (API client traffic attached to the report automatically)
+ * - Persona fixtures (asUser('reader') for cross-user scenarios)
+ * - Fresh user fixture (freshUser, registered just for the test)
+ * - Mock API fixture (mockApi, an in-memory Conduit API shared by the worker)
  *
  * Use this for tests that need the full framework capabilities.
  *
@@ -25,7 +33,15 @@ import { test as cleanupFixture } from '../test-hooks/cleanup.fixture';
  *   cleanup.registerArticle(article.slug);
  * });
  */
-export const test = mergeTests(pageObjectFixture, apiRequestFixture, cleanupFixture);
+export const test = mergeTests(
+  pageObjectFixture,
+  apiRequestFixture,
+  cleanupFixture,
+  apiLogsFixture,
+  personaFixture,
+  freshUserFixture,
+  mockApiFixture
+);
 
 export { expect };
 
@@ -33,3 +49,15 @@ export { expect };
 export type { PageFixtures } from '../pom/page-object-fixture';
 export type { CleanupFixtures, TestArticle } from '../test-hooks/cleanup.fixture';
 export type { ApiRequestMethods } from '../api/types-guards';
+export type { ApiLogFixtures } from '../test-hooks/api-logs.fixture';
+export type {
+  PersonaFixtures,
+  PersonaWorkerFixtures,
+  PersonaSession,
+} from '../auth/persona.fixture';
+export type { FreshUser, FreshUserFixtures } from '../auth/fresh-user.fixture';
+export type {
+  MockApi,
+  MockApiFixtures,
+  MockApiWorkerFixtures,
+} from '../test-hooks/mock-api.fixture';
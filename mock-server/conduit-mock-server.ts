@@ -0,0 +1,464 @@
+/**
+ * Conduit Mock Server
+ *
+ * In-process HTTP implementation of the Conduit REST API backed by
+ * `ConduitStore`. Routes come from the typed endpoint catalog, so every
+ * endpoint the clients can call is served, and every response is checked
+ * against the catalog's response schema (a mismatch is answered with 500).
+ * Faults (error statuses, delays) can be injected per endpoint to exercise
+ * retries, timeouts and re-authentication offline.
+ *
+ * @example
+ * const server = new ConduitMockServer({ users: [{ email, password, username }] });
+ * const apiUrl = await server.start();
+ * // ... point clients at apiUrl ...
+ * await server.stop();
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ENDPOINTS, EndpointName } from '../fixtures/api/endpoints/api-endpoints';
+import {
+  ArticleInput,
+  ConduitStore,
+  ConduitStoreOptions,
+  MockApiError,
+  UserInput,
+} from './conduit-store';
+
+export interface ConduitMockServerOptions extends ConduitStoreOptions {
+  /** Path the API is mounted under (default: '/') */
+  basePath?: string;
+}
+
+/**
+ * Parsed request as seen by a route handler
+ */
+interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  /** Id of the authenticated user, if a valid token was sent */
+  userId?: number;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (request: MockRequest) => MockResponse;
+
+/**
+ * Injected failure for the next request(s) to an endpoint
+ */
+export interface MockFault {
+  /** Status to answer with; omit to only delay the regular response */
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Delay before answering in milliseconds */
+  delayMs?: number;
+  /** Number of requests the fault applies to (default: 1) */
+  times?: number;
+}
+
+/**
+ * Request as answered by the server, in arrival order
+ */
+export interface MockRequestLog {
+  name?: EndpointName;
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface Route {
+  name: EndpointName;
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+/** Endpoints that accept anonymous requests (a token, if sent, is still verified) */
+const PUBLIC_ENDPOINTS: EndpointName[] = [
+  'users.login',
+  'users.register',
+  'profiles.get',
+  'articles.list',
+  'articles.get',
+  'comments.list',
+  'tags.list',
+];
+
+const ok = (body: unknown, status = 200): MockResponse => ({ status, body });
+
+/**
+ * Id of the authenticated user, or 401 for anonymous requests
+ */
+function requireUser({ userId }: MockRequest): number {
+  if (userId === undefined) {
+    throw new MockApiError(401, { token: ['is missing'] });
+  }
+  return userId;
+}
+
+/**
+ * Nested payload object (`{ user: {...} }`, `{ article: {...} }`), empty when absent
+ */
+function payload<T>(body: Record<string, unknown>, key: string): Partial<T> {
+  const value = body[key];
+  return typeof value === 'object' && value !== null ? (value as Partial<T>) : {};
+}
+
+function numberParam(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  return value === null || Number.isNaN(Number(value)) ? undefined : Number(value);
+}
+
+export class ConduitMockServer {
+  readonly store: ConduitStore;
+  /** Every answered request, in arrival order */
+  readonly requests: MockRequestLog[] = [];
+  private faults = new Map<EndpointName, Required<Pick<MockFault, 'times'>> & MockFault>();
+  private server?: http.Server;
+  private routes: Route[];
+  private readonly basePath: string;
+  private baseUrl?: string;
+
+  constructor(options: ConduitMockServerOptions = {}) {
+    this.store = new ConduitStore(options);
+    this.basePath = `/${(options.basePath ?? '/').replace(/^\/+|\/+$/g, '')}/`.replace('//', '/');
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * URL clients should use as API_URL (with trailing slash)
+   */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Mock server is not running');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening (port 0 picks a free port); resolves to the API URL
+   */
+  async start(port: number = 0, host: string = 'localhost'): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => this.fail(res, error));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}${this.basePath}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Fail or delay the next request(s) to an endpoint
+   *
+   * @example
+   * server.inject('articles.create', { status: 503, times: 2 });
+   */
+  inject(name: EndpointName, fault: MockFault): void {
+    this.faults.set(name, { ...fault, times: fault.times ?? 1 });
+  }
+
+  /**
+   * Drop injected faults and the request log
+   */
+  resetFaults(): void {
+    this.faults.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.baseUrl = undefined;
+    if (!server) {
+      return;
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // ==================== Request Handling ====================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const path = url.pathname.startsWith(this.basePath)
+      ? url.pathname.slice(this.basePath.length).replace(/\/+$/, '')
+      : undefined;
+    const match = path === undefined ? undefined : this.match(req.method ?? 'GET', path);
+
+    const respond = (
+      { status, body }: MockResponse,
+      headers: Record<string, string> = {}
+    ): void => {
+      this.requests.push({
+        name: match?.route.name,
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        status,
+      });
+      res.writeHead(status, {
+        ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+        ...headers,
+      });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (!match) {
+      respond({ status: 404, body: { status: '404', error: 'Not Found' } });
+      return;
+    }
+
+    const { route, params } = match;
+    const fault = this.takeFault(route.name);
+    if (fault?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault?.status !== undefined) {
+      respond({ status: fault.status, body: fault.body }, fault.headers);
+      return;
+    }
+
+    try {
+      const request: MockRequest = {
+        params,
+        query: url.searchParams,
+        body: await this.readBody(req),
+        userId: this.resolveUser(req.headers.authorization),
+      };
+      if (!PUBLIC_ENDPOINTS.includes(route.name)) {
+        requireUser(request);
+      }
+
+      respond(this.checkResponse(route.name, route.handler(request)));
+    } catch (error) {
+      if (error instanceof MockApiError) {
+        respond({ status: error.status, body: { errors: error.errors } });
+      } else {
+        respond({ status: 500, body: { status: '500', error: String(error) } });
+      }
+    }
+  }
+
+  /**
+   * Answer 500 for an error the handler did not turn into a response, so the socket is not left open
+   */
+  private fail(res: http.ServerResponse, error: unknown): void {
+    if (res.writableEnded) {
+      return;
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(500, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ status: '500', error: String(error) }));
+  }
+
+  private takeFault(name: EndpointName): MockFault | undefined {
+    const fault = this.faults.get(name);
+    if (fault && --fault.times <= 0) {
+      this.faults.delete(name);
+    }
+    return fault;
+  }
+
+  private match(
+    method: string,
+    path: string
+  ): { route: Route; params: Record<string, string> } | undefined {
+    for (const route of this.routes) {
+      const found = route.method === method ? route.pattern.exec(path) : null;
+      if (found) {
+        const params = Object.fromEntries(
+          route.paramNames.map((name, index) => [name, decodeURIComponent(found[index + 1])])
+        );
+        return { route, params };
+      }
+    }
+    return undefined;
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) {
+      return {};
+    }
+    try {
+      const parsed: unknown = JSON.parse(text);
+      return typeof parsed === 'object' && parsed !== null
+        ? (parsed as Record<string, unknown>)
+        : {};
+    } catch {
+      throw new MockApiError(422, { body: ['is not valid JSON'] });
+    }
+  }
+
+  /**
+   * Authenticated user id from a `Token <jwt>` (or `Bearer <jwt>`) header
+   */
+  private resolveUser(authorization: string | undefined): number | undefined {
+    const token = authorization?.match(/^(?:Token|Bearer)\s+(.+)$/)?.[1];
+    return token ? this.store.authenticate(token) : undefined;
+  }
+
+  /**
+   * Answer 500 when a handler's body does not match the catalog's response schema
+   */
+  private checkResponse(name: EndpointName, response: MockResponse): MockResponse {
+    const endpoint = ENDPOINTS[name];
+    if (!('response' in endpoint)) {
+      return response;
+    }
+
+    const result = endpoint.response.safeParse(response.body);
+    if (result.success) {
+      return response;
+    }
+    return {
+      status: 500,
+      body: {
+        status: '500',
+        error: `Mock response does not match ${endpoint.responseName}: ${result.error.message}`,
+      },
+    };
+  }
+
+  // ==================== Routes ====================
+
+  /**
+   * Routes for every catalog endpoint; literal paths win over `:param` ones
+   */
+  private buildRoutes(): Route[] {
+    const handlers = this.handlers();
+    return (Object.keys(ENDPOINTS) as EndpointName[])
+      .map((name): Route => {
+        const { method, path } = ENDPOINTS[name];
+        const paramNames: string[] = [];
+        const source = path
+          .replace(/\/+$/, '')
+          .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, param: string) => {
+            paramNames.push(param);
+            return '([^/]+)';
+          });
+        return {
+          name,
+          method,
+          pattern: new RegExp(`^${source}$`),
+          paramNames,
+          handler: handlers[name],
+        };
+      })
+      .sort((a, b) => a.paramNames.length - b.paramNames.length);
+  }
+
+  private handlers(): Record<EndpointName, RouteHandler> {
+    const store = this.store;
+
+    return {
+      // ==================== Users ====================
+      'users.login': ({ body }): MockResponse => {
+        const { email, password } = payload<UserInput>(body, 'user');
+        return ok({ user: store.login(email, password) });
+      },
+      'users.register': ({ body }) => ok({ user: store.register(payload(body, 'user')) }, 201),
+      'users.current': (request) => ok({ user: store.currentUser(requireUser(request)) }),
+      'users.update': (request) =>
+        ok({ user: store.updateUser(requireUser(request), payload(request.body, 'user')) }),
+
+      // ==================== Profiles ====================
+      'profiles.get': ({ params, userId }) =>
+        ok({ profile: store.profile(params.username, userId) }),
+      'profiles.follow': (request) =>
+        ok({ profile: store.follow(request.params.username, requireUser(request), true) }),
+      'profiles.unfollow': (request) =>
+        ok({ profile: store.follow(request.params.username, requireUser(request), false) }),
+
+      // ==================== Articles ====================
+      'articles.list': ({ query, userId }) =>
+        ok(
+          store.listArticles(
+            {
+              tag: query.get('tag') ?? undefined,
+              author: query.get('author') ?? undefined,
+              favorited: query.get('favorited') ?? undefined,
+              limit: numberParam(query, 'limit'),
+              offset: numberParam(query, 'offset'),
+            },
+            userId
+          )
+        ),
+      'articles.feed': (request) =>
+        ok(
+          store.feed(requireUser(request), {
+            limit: numberParam(request.query, 'limit'),
+            offset: numberParam(request.query, 'offset'),
+          })
+        ),
+      'articles.create': (request) =>
+        ok(
+          {
+            article: store.createArticle(
+              requireUser(request),
+              payload<ArticleInput>(request.body, 'article')
+            ),
+          },
+          201
+        ),
+      'articles.get': ({ params, userId }) =>
+        ok({ article: store.getArticle(params.slug, userId) }),
+      'articles.update': (request) =>
+        ok({
+          article: store.updateArticle(
+            request.params.slug,
+            requireUser(request),
+            payload(request.body, 'article')
+          ),
+        }),
+      'articles.delete': (request): MockResponse => {
+        store.deleteArticle(request.params.slug, requireUser(request));
+        return { status: 204 };
+      },
+      'articles.favorite': (request) =>
+        ok({ article: store.favorite(request.params.slug, requireUser(request), true) }),
+      'articles.unfavorite': (request) =>
+        ok({ article: store.favorite(request.params.slug, requireUser(request), false) }),
+
+      // ==================== Comments ====================
+      'comments.list': ({ params, userId }) =>
+        ok({ comments: store.listComments(params.slug, userId) }),
+      'comments.create': (request): MockResponse => {
+        const { body } = payload<{ body: string }>(request.body, 'comment');
+        return ok(
+          { comment: store.addComment(request.params.slug, requireUser(request), body) },
+          201
+        );
+      },
+      'comments.delete': (request): MockResponse => {
+        store.deleteComment(request.params.slug, Number(request.params.id), requireUser(request));
+        return { status: 204 };
+      },
+
+      // ==================== Tags ====================
+      'tags.list': () => ok({ tags: store.tags() }),
+    };
+  }
+}
@@ -0,0 +1,582 @@
+/**
+ * Conduit Store
+ *
+ * In-memory state and business rules of the mock Conduit API: users,
+ * follows, articles, favorites, comments and tags. Every operation returns
+ * response shapes from `fixtures/api/types` or throws a `MockApiError`
+ * carrying the status and `{ errors }` body the real backend would send.
+ */
+
+import crypto from 'crypto';
+import { slugify } from '../fixtures/api/helpers/slug-helpers';
+import { Article, Comment, Profile, User } from '../fixtures/api/types';
+
+/** Image the real backend assigns to users without one */
+export const DEFAULT_PROFILE_IMAGE = 'https://static.productionready.io/images/smiley-cyrus.jpg';
+
+export interface SeedUser {
+  email: string;
+  password: string;
+  username: string;
+}
+
+export interface ConduitStoreOptions {
+  /** Users that exist from the start (e.g. the test personas) */
+  users?: SeedUser[];
+  /** Lifetime of issued tokens (default: 1 hour) */
+  tokenTtlSeconds?: number;
+}
+
+export interface ArticleFilters {
+  tag?: string;
+  author?: string;
+  favorited?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArticleInput {
+  title?: string;
+  description?: string;
+  body?: string;
+  tagList?: string[];
+}
+
+export interface UserInput {
+  email?: string;
+  username?: string;
+  password?: string;
+  /** null clears the field */
+  bio?: string | null;
+  image?: string | null;
+}
+
+// ==================== Errors ====================
+
+/**
+ * Error answered to the client as `{ errors }` with the given status
+ */
+export class MockApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly errors: Record<string, string[]>
+  ) {
+    super(
+      Object.entries(errors)
+        .map(([field, messages]) => `${field} ${messages.join(', ')}`)
+        .join('; ')
+    );
+    this.name = 'MockApiError';
+    Object.setPrototypeOf(this, MockApiError.prototype);
+  }
+
+  toLogString(): string {
+    return `[${this.name}] ${this.status}: ${this.message}`;
+  }
+}
+
+// ==================== Records ====================
+
+interface UserRecord {
+  id: number;
+  email: string;
+  username: string;
+  password: string;
+  bio: string | null;
+  image: string | null;
+  following: Set<number>;
+}
+
+interface ArticleRecord {
+  id: number;
+  slug: string;
+  title: string;
+  description: string;
+  body: string;
+  tagList: string[];
+  createdAt: string;
+  updatedAt: string;
+  authorId: number;
+  favoritedBy: Set<number>;
+}
+
+interface CommentRecord {
+  id: number;
+  articleId: number;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  authorId: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@.][^\s@]*@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/;
+
+export class ConduitStore {
+  private users = new Map<number, UserRecord>();
+  private articles = new Map<number, ArticleRecord>();
+  private comments = new Map<number, CommentRecord>();
+  private nextId = { user: 1, article: 1, comment: 1 };
+  private lastTimestamp = 0;
+  private readonly secret = crypto.randomBytes(32);
+  private readonly tokenTtlSeconds: number;
+
+  constructor(private readonly options: ConduitStoreOptions = {}) {
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+    this.reset();
+  }
+
+  /**
+   * Drop all data and recreate the seed users
+   */
+  reset(): void {
+    this.users.clear();
+    this.articles.clear();
+    this.comments.clear();
+    this.nextId = { user: 1, article: 1, comment: 1 };
+    // Seed users skip the registration rules, so any real account can be mirrored
+    this.options.users?.forEach((user) => this.createUser(user));
+  }
+
+  // ==================== Authentication ====================
+
+  /**
+   * Issue a signed JWT for a user
+   */
+  issueToken(userId: number): string {
+    const encode = (value: object): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const exp = Math.floor(Date.now() / 1000) + this.tokenTtlSeconds;
+    const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ id: userId, exp })}`;
+    return `${unsigned}.${this.sign(unsigned)}`;
+  }
+
+  /**
+   * Resolve the user id of a valid, unexpired token
+   *
+   * @throws MockApiError 401 when the token is malformed, forged, expired or of a deleted user
+   */
+  authenticate(token: string): number {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || signature !== this.sign(`${header}.${payload}`)) {
+      throw new MockApiError(401, { token: ['is invalid'] });
+    }
+
+    const { id, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as {
+      id: number;
+      exp: number;
+    };
+    if (exp * 1000 <= Date.now()) {
+      throw new MockApiError(401, { token: ['has expired'] });
+    }
+    if (!this.users.has(id)) {
+      throw new MockApiError(401, { token: ['is invalid'] });
+    }
+    return id;
+  }
+
+  login(email: string | undefined, password: string | undefined): User {
+    const user = [...this.users.values()].find(
+      (candidate) => candidate.email === email?.toLowerCase()
+    );
+    if (!user || user.password !== password) {
+      throw new MockApiError(403, { 'email or password': ['is invalid'] });
+    }
+    return this.toUser(user);
+  }
+
+  // ==================== Users ====================
+
+  register(input: UserInput): User {
+    const errors = this.validateUser(input, { required: true });
+    if (Object.keys(errors).length > 0) {
+      throw new MockApiError(422, errors);
+    }
+
+    return this.toUser(this.createUser(input as SeedUser));
+  }
+
+  currentUser(userId: number): User {
+    return this.toUser(this.userById(userId));
+  }
+
+  updateUser(userId: number, input: UserInput): User {
+    const errors = this.validateUser(input, { required: false, userId });
+    if (Object.keys(errors).length > 0) {
+      throw new MockApiError(422, errors);
+    }
+
+    const user = this.userById(userId);
+    user.email = input.email?.toLowerCase() ?? user.email;
+    user.username = input.username ?? user.username;
+    user.password = input.password ?? user.password;
+    user.bio = input.bio === undefined ? user.bio : input.bio;
+    user.image = input.image === undefined ? user.image : input.image;
+    return this.toUser(user);
+  }
+
+  // ==================== Profiles ====================
+
+  profile(username: string, viewerId?: number): Profile {
+    return this.toProfile(this.userByName(username), viewerId);
+  }
+
+  follow(username: string, viewerId: number, follow: boolean): Profile {
+    const target = this.userByName(username);
+    const following = this.userById(viewerId).following;
+    if (follow) {
+      following.add(target.id);
+    } else {
+      following.delete(target.id);
+    }
+    return this.toProfile(target, viewerId);
+  }
+
+  // ==================== Articles ====================
+
+  /**
+   * Articles matching the filters, newest first
+   */
+  listArticles(
+    filters: ArticleFilters,
+    viewerId?: number
+  ): { articles: Article[]; articlesCount: number } {
+    const author = filters.author !== undefined ? this.findUserByName(filters.author) : undefined;
+    const favoriter =
+      filters.favorited !== undefined ? this.findUserByName(filters.favorited) : undefined;
+
+    const matches = this.newestArticles().filter(
+      (article) =>
+        (filters.tag === undefined || article.tagList.includes(filters.tag)) &&
+        (filters.author === undefined || article.authorId === author?.id) &&
+        (filters.favorited === undefined ||
+          (favoriter !== undefined && article.favoritedBy.has(favoriter.id)))
+    );
+    return this.page(matches, filters, viewerId);
+  }
+
+  /**
+   * Articles by authors the viewer follows, newest first
+   */
+  feed(
+    viewerId: number,
+    filters: Pick<ArticleFilters, 'limit' | 'offset'>
+  ): { articles: Article[]; articlesCount: number } {
+    const following = this.userById(viewerId).following;
+    const matches = this.newestArticles().filter((article) => following.has(article.authorId));
+    return this.page(matches, filters, viewerId);
+  }
+
+  getArticle(slug: string, viewerId?: number): Article {
+    return this.toArticle(this.articleBySlug(slug), viewerId);
+  }
+
+  createArticle(authorId: number, input: ArticleInput): Article {
+    const errors: Record<string, string[]> = {};
+    for (const field of ['title', 'description', 'body'] as const) {
+      if (!input[field]?.trim()) {
+        errors[field] = ["can't be blank"];
+      }
+    }
+    if (input.title && this.findArticleByTitle(input.title)) {
+      errors.title = ['must be unique'];
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new MockApiError(422, errors);
+    }
+
+    const now = this.timestamp();
+    const article: ArticleRecord = {
+      id: this.nextId.article++,
+      slug: this.uniqueSlug(input.title!),
+      title: input.title!,
+      description: input.description!,
+      body: input.body!,
+      tagList: [...new Set(input.tagList ?? [])],
+      createdAt: now,
+      updatedAt: now,
+      authorId,
+      favoritedBy: new Set(),
+    };
+    this.articles.set(article.id, article);
+    return this.toArticle(article, authorId);
+  }
+
+  updateArticle(slug: string, userId: number, input: ArticleInput): Article {
+    const article = this.ownArticle(slug, userId);
+    if (input.title !== undefined && input.title !== article.title) {
+      const existing = this.findArticleByTitle(input.title);
+      if (!input.title.trim() || (existing && existing.id !== article.id)) {
+        throw new MockApiError(422, {
+          title: [input.title.trim() ? 'must be unique' : "can't be blank"],
+        });
+      }
+      article.title = input.title;
+      article.slug = this.uniqueSlug(input.title);
+    }
+    article.description = input.description ?? article.description;
+    article.body = input.body ?? article.body;
+    article.updatedAt = this.timestamp();
+    return this.toArticle(article, userId);
+  }
+
+  deleteArticle(slug: string, userId: number): void {
+    const article = this.ownArticle(slug, userId);
+    this.articles.delete(article.id);
+    for (const comment of this.comments.values()) {
+      if (comment.articleId === article.id) {
+        this.comments.delete(comment.id);
+      }
+    }
+  }
+
+  favorite(slug: string, userId: number, favorite: boolean): Article {
+    const article = this.articleBySlug(slug);
+    if (favorite) {
+      article.favoritedBy.add(userId);
+    } else {
+      article.favoritedBy.delete(userId);
+    }
+    return this.toArticle(article, userId);
+  }
+
+  // ==================== Comments ====================
+
+  listComments(slug: string, viewerId?: number): Comment[] {
+    const article = this.articleBySlug(slug);
+    return [...this.comments.values()]
+      .filter((comment) => comment.articleId === article.id)
+      .map((comment) => this.toComment(comment, viewerId));
+  }
+
+  addComment(slug: string, authorId: number, body: string | undefined): Comment {
+    const article = this.articleBySlug(slug);
+    if (!body?.trim()) {
+      throw new MockApiError(422, { body: ["can't be blank"] });
+    }
+
+    const now = this.timestamp();
+    const comment: CommentRecord = {
+      id: this.nextId.comment++,
+      articleId: article.id,
+      body,
+      createdAt: now,
+      updatedAt: now,
+      authorId,
+    };
+    this.comments.set(comment.id, comment);
+    return this.toComment(comment, authorId);
+  }
+
+  deleteComment(slug: string, commentId: number, userId: number): void {
+    const article = this.articleBySlug(slug);
+    const comment = this.comments.get(commentId);
+    if (!comment || comment.articleId !== article.id) {
+      throw new MockApiError(404, { comment: ['not found'] });
+    }
+    if (comment.authorId !== userId) {
+      throw new MockApiError(403, { comment: ['forbidden'] });
+    }
+    this.comments.delete(commentId);
+  }
+
+  // ==================== Tags ====================
+
+  /**
+   * Tags in use, most used first
+   */
+  tags(): string[] {
+    const counts = new Map<string, number>();
+    for (const article of this.newestArticles()) {
+      article.tagList.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+  }
+
+  // ==================== Internals ====================
+
+  private sign(unsigned: string): string {
+    return crypto.createHmac('sha256', this.secret).update(unsigned).digest('base64url');
+  }
+
+  /**
+   * Strictly increasing ISO timestamp, so "newest first" ordering is stable
+   */
+  private timestamp(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  private validateUser(
+    input: UserInput,
+    { required, userId }: { required: boolean; userId?: number }
+  ): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    const check = (
+      field: keyof UserInput,
+      value: string | undefined,
+      problem: () => string | undefined
+    ): void => {
+      if (value === undefined) {
+        if (required) {
+          errors[field] = ["can't be blank"];
+        }
+        return;
+      }
+      const message = value.trim() ? problem() : "can't be blank";
+      if (message) {
+        errors[field] = [message];
+      }
+    };
+
+    check('email', input.email, () => {
+      if (!EMAIL_PATTERN.test(input.email!) || input.email!.includes('..')) {
+        return 'is invalid';
+      }
+      const owner = this.findUserByEmail(input.email!);
+      return owner && owner.id !== userId ? 'has already been taken' : undefined;
+    });
+    check('username', input.username, () => {
+      if (input.username!.length < 3 || input.username!.length > 20) {
+        return 'must be between 3 and 20 characters';
+      }
+      const owner = this.findUserByName(input.username!);
+      return owner && owner.id !== userId ? 'has already been taken' : undefined;
+    });
+    check('password', input.password, () =>
+      input.password!.length < 8 || input.password!.length > 20
+        ? 'must be between 8 and 20 characters'
+        : undefined
+    );
+    return errors;
+  }
+
+  private createUser({ email, username, password }: SeedUser): UserRecord {
+    const user: UserRecord = {
+      id: this.nextId.user++,
+      email: email.toLowerCase(),
+      username,
+      password,
+      bio: null,
+      image: null,
+      following: new Set(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  private userById(id: number): UserRecord {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new MockApiError(404, { user: ['not found'] });
+    }
+    return user;
+  }
+
+  private userByName(username: string): UserRecord {
+    const user = this.findUserByName(username);
+    if (!user) {
+      throw new MockApiError(404, { profile: ['not found'] });
+    }
+    return user;
+  }
+
+  private findUserByName(username: string): UserRecord | undefined {
+    return [...this.users.values()].find((user) => user.username === username);
+  }
+
+  private findUserByEmail(email: string): UserRecord | undefined {
+    return [...this.users.values()].find((user) => user.email === email.toLowerCase());
+  }
+
+  private articleBySlug(slug: string): ArticleRecord {
+    const article = [...this.articles.values()].find((candidate) => candidate.slug === slug);
+    if (!article) {
+      throw new MockApiError(404, { article: ['not found'] });
+    }
+    return article;
+  }
+
+  private ownArticle(slug: string, userId: number): ArticleRecord {
+    const article = this.articleBySlug(slug);
+    if (article.authorId !== userId) {
+      throw new MockApiError(403, { article: ['forbidden'] });
+    }
+    return article;
+  }
+
+  private findArticleByTitle(title: string): ArticleRecord | undefined {
+    return [...this.articles.values()].find((article) => article.title === title);
+  }
+
+  private uniqueSlug(title: string): string {
+    const base = slugify(title);
+    const taken = new Set([...this.articles.values()].map((article) => article.slug));
+    let slug = base;
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  }
+
+  private newestArticles(): ArticleRecord[] {
+    return [...this.articles.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private page(
+    articles: ArticleRecord[],
+    { limit = 20, offset = 0 }: Pick<ArticleFilters, 'limit' | 'offset'>,
+    viewerId?: number
+  ): { articles: Article[]; articlesCount: number } {
+    return {
+      articles: articles
+        .slice(offset, offset + limit)
+        .map((article) => this.toArticle(article, viewerId)),
+      articlesCount: articles.length,
+    };
+  }
+
+  private toUser(user: UserRecord): User {
+    return {
+      email: user.email,
+      username: user.username,
+      bio: user.bio,
+      image: user.image,
+      token: this.issueToken(user.id),
+    };
+  }
+
+  private toProfile(user: UserRecord, viewerId?: number): Profile {
+    const viewer = viewerId !== undefined ? this.users.get(viewerId) : undefined;
+    return {
+      username: user.username,
+      bio: user.bio,
+      image: user.image ?? DEFAULT_PROFILE_IMAGE,
+      following: viewer?.following.has(user.id) ?? false,
+    };
+  }
+
+  private toArticle(article: ArticleRecord, viewerId?: number): Article {
+    return {
+      slug: article.slug,
+      title: article.title,
+      description: article.description,
+      body: article.body,
+      tagList: [...article.tagList],
+      createdAt: article.createdAt,
+      updatedAt: article.updatedAt,
+      favorited: viewerId !== undefined && article.favoritedBy.has(viewerId),
+      favoritesCount: article.favoritedBy.size,
+      author: this.toProfile(this.userById(article.authorId), viewerId),
+    };
+  }
+
+  private toComment(comment: CommentRecord, viewerId?: number): Comment {
+    return {
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      author: this.toProfile(this.userById(comment.authorId), viewerId),
+    };
+  }
+}
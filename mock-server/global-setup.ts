@@ -0,0 +1,37 @@
+/**
+ * Mock API Global Setup
+ *
+ * Starts the in-memory Conduit API on the port of API_URL when MOCK_API=true,
+ * so the API suite runs offline. The default test user and the configured
+ * personas are seeded, ACCESS_TOKEN is replaced with a token issued by the
+ * mock, and the server stops when the run ends.
+ */
+
+import { config } from '../config';
+import { personasFromEnv } from '../fixtures/auth/personas';
+import { ConduitMockServer } from './conduit-mock-server';
+import { SeedUser } from './conduit-store';
+
+/**
+ * Accounts to create on startup: the default test user plus personas with credentials
+ */
+export function seedUsers(): SeedUser[] {
+  const personas = Object.values(personasFromEnv())
+    .filter((persona) => persona.email && persona.password && persona.username)
+    .map(({ email, password, username }) => ({ email, password, username }) as SeedUser);
+
+  return [config.user, ...personas].filter(
+    (user, index, users) => users.findIndex((other) => other.email === user.email) === index
+  );
+}
+
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  const apiUrl = new URL(config.apiUrl);
+  const server = new ConduitMockServer({ users: seedUsers(), basePath: apiUrl.pathname });
+
+  await server.start(Number(apiUrl.port) || 80, apiUrl.hostname);
+  // Tokens of a real backend are not valid here; workers inherit this one
+  config.accessToken = server.store.login(config.user.email, config.user.password).token;
+
+  return () => server.stop();
+}
@@ -0,0 +1,2 @@
+export * from './conduit-store';
+export * from './conduit-mock-server';
@@ -144,4 +144,16 @@ export class HomePage extends BasePage {
   async expectTagVisible(tagName: string): Promise<void> {
     await expect(this.popularTags.filter({ hasText: tagName })).toBeVisible();
   }
+
+  /**
+   * Assert that all given tags are listed in the Popular Tags sidebar (case-insensitive)
+   */
+  async expectPopularTags(tagNames: string[]): Promise<void> {
+    for (const tagName of tagNames) {
+      const escaped = tagName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      await expect(
+        this.popularTags.filter({ hasText: new RegExp(`^\\s*${escaped}\\s*$`, 'i') })
+      ).toBeVisible();
+    }
+  }
 }
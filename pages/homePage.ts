@@ -1,4 +1,5 @@
 import { Page, Locator, expect } from '@playwright/test';
+import { config } from '../config';
 
 /**
  * Home Page Object - handles home/landing page interactions.
@@ -57,7 +58,7 @@ export class HomePage {
    * Waits for the home banner to be visible before returning.
    */
   async navigateToHomePageGuest(): Promise<void> {
-    await this.page.goto(process.env.URL as string);
+    await this.page.goto(config.baseUrl);
     await expect(this.homeBanner).toBeVisible();
   }
 
@@ -66,7 +67,7 @@ export class HomePage {
    * Waits for both feed tabs to be visible before returning.
    */
   async navigateToHomePageUser(): Promise<void> {
-    await this.page.goto(process.env.URL as string);
+    await this.page.goto(config.baseUrl);
     await expect(this.yourFeedBtn).toBeVisible();
     await expect(this.globalFeedBtn).toBeVisible();
   }
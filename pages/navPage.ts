@@ -1,4 +1,5 @@
 import { Page, Locator, expect } from "@playwright/test";
+import { config } from "../config";
 
 export class NavPage {
   constructor(private page: Page) {}
@@ -84,10 +85,10 @@ export class NavPage {
     await this.emailInput.fill(email);
     await this.passwordInput.fill(password);
     await this.signInButton.click();
-    await this.page.waitForResponse(`${process.env.API_URL}api/tags`);
+    await this.page.waitForResponse(`${config.apiUrl}api/tags`);
 
     await expect(
-      this.page.getByRole("navigation").getByText(process.env.USER_NAME!)
+      this.page.getByRole("navigation").getByText(config.user.username)
     ).toBeVisible();
   }
 
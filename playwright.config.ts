@@ -1,18 +1,13 @@
 import { defineConfig, devices } from '@playwright/test';
-import dotenv from 'dotenv';
+import { config } from './config';
+import { PersonaWorkerFixtures, personasFromEnv } from './fixtures/auth';
 
-// Determine which environment file to load
-const environmentPath = process.env.ENVIRONMENT
-  ? `./env/.env.${process.env.ENVIRONMENT}`
-  : `./env/.env.dev`; // dev | local
+// Loads and validates env/.env.<ENVIRONMENT> (dev | local); fails fast on missing keys
 
-// Load the environment variables
-dotenv.config({
-  path: environmentPath,
-});
-
-export default defineConfig({
+export default defineConfig<object, Pick<PersonaWorkerFixtures, 'personas'>>({
   testDir: './tests',
+  /* Serve API_URL from the in-memory mock Conduit API when MOCK_API=true */
+  globalSetup: config.mockApi ? './mock-server/global-setup.ts' : undefined,
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -23,8 +18,19 @@ export default defineConfig({
   workers: process.env.CI ? 1 : undefined,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: process.env.CI
-    ? [['blob'], ['html', { open: 'never' }], ['list']]
-    : [['html', { open: 'on-failure' }], ['list']],
+    ? [
+        ['blob'],
+        ['html', { open: 'never' }],
+        ['list'],
+        ['./reporters/cleanup-summary-reporter.ts'],
+        ['./reporters/schema-drift-reporter.ts'],
+      ]
+    : [
+        ['html', { open: 'on-failure' }],
+        ['list'],
+        ['./reporters/cleanup-summary-reporter.ts'],
+        ['./reporters/schema-drift-reporter.ts'],
+      ],
 
   /* Global timeout for each test */
   timeout: 60000,
@@ -37,7 +43,7 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: process.env.URL,
+    baseURL: config.baseUrl,
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -53,6 +59,9 @@ export default defineConfig({
 
     /* Navigation timeout */
     navigationTimeout: 30000,
+
+    /* Named users for cross-user scenarios (see fixtures/auth/personas.ts) */
+    personas: personasFromEnv(),
   },
 
   /* Configure projects for major browsers */
@@ -64,6 +73,12 @@ export default defineConfig({
         viewport: { width: 1366, height: 768 },
       },
       testMatch: /.*\.setup\.ts/,
+      teardown: 'cleanup',
+    },
+    {
+      /* Replays the cleanup ledger and sweeps orphaned test articles (also runnable standalone) */
+      name: 'cleanup',
+      testMatch: /.*\.teardown\.ts/,
     },
     {
       name: 'chromium',
@@ -0,0 +1,82 @@
+/**
+ * Cleanup Summary Reporter
+ *
+ * Collects the per-test cleanup reports attached by the `cleanup` fixture
+ * and writes a run-level summary of leaked resources (undo actions that
+ * failed for reasons other than 404) when the run ends.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { CLEANUP_REPORT_ATTACHMENT, CleanupOutcome } from '../fixtures/test-hooks/cleanup-registry';
+
+export interface CleanupSummaryReporterOptions {
+  /** Where to write the JSON summary (default: test-results/cleanup-summary.json) */
+  outputFile?: string;
+}
+
+/**
+ * A leaked resource and the test that created it
+ */
+export interface LeakedResource extends CleanupOutcome {
+  test: string;
+  file: string;
+  retry: number;
+}
+
+export default class CleanupSummaryReporter implements Reporter {
+  private readonly outputFile: string;
+  private leaked: LeakedResource[] = [];
+  private totals = { cleaned: 0, 'already-gone': 0, failed: 0 };
+
+  constructor(options: CleanupSummaryReporterOptions = {}) {
+    this.outputFile = options.outputFile ?? 'test-results/cleanup-summary.json';
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find((a) => a.name === CLEANUP_REPORT_ATTACHMENT);
+    if (!attachment?.body) {
+      return;
+    }
+
+    const outcomes = JSON.parse(attachment.body.toString('utf-8')) as CleanupOutcome[];
+    for (const outcome of outcomes) {
+      this.totals[outcome.status]++;
+      if (outcome.status === 'failed') {
+        this.leaked.push({
+          ...outcome,
+          test: test.titlePath().filter(Boolean).join(' › '),
+          file: path.relative(process.cwd(), test.location.file),
+          retry: result.retry,
+        });
+      }
+    }
+  }
+
+  onEnd(): void {
+    if (this.totals.cleaned + this.totals['already-gone'] + this.totals.failed === 0) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(
+      this.outputFile,
+      JSON.stringify({ totals: this.totals, leaked: this.leaked }, null, 2)
+    );
+
+    if (this.leaked.length > 0) {
+      const lines = this.leaked.map(
+        (r) => `  ${r.type} '${r.id}'${r.httpStatus ? ` (${r.httpStatus})` : ''} - ${r.test}`
+      );
+      console.warn(
+        [`Cleanup leaked ${this.leaked.length} resource(s):`, ...lines].join('\n') +
+          `\nSee ${this.outputFile}`
+      );
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Schema Drift Reporter
+ *
+ * Collects the schema drift attached to each test and writes a run-level
+ * report of every unknown or missing field per schema name when the run ends.
+ * Drift is only recorded in strict mode (SCHEMA_STRICT_MODE); tests annotated
+ * with EXPECTED_SCHEMA_DRIFT are left out.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  EXPECTED_SCHEMA_DRIFT,
+  SCHEMA_DRIFT_ATTACHMENT,
+  SchemaDriftRecord,
+} from '../fixtures/api/helpers/schema-drift';
+
+export interface SchemaDriftReporterOptions {
+  /** Where to write the JSON report (default: test-results/schema-drift.json) */
+  outputFile?: string;
+}
+
+/**
+ * A drifted field of a schema, with how often and where it was seen
+ */
+export interface DriftedField {
+  path: string;
+  occurrences: number;
+  tests: string[];
+}
+
+/**
+ * Drift of one schema over the whole run
+ */
+export interface SchemaDriftSummary {
+  /** Responses of the schema that drifted */
+  responses: number;
+  unknown: DriftedField[];
+  missing: DriftedField[];
+}
+
+export default class SchemaDriftReporter implements Reporter {
+  private readonly outputFile: string;
+  private schemas = new Map<string, SchemaDriftSummary>();
+
+  constructor(options: SchemaDriftReporterOptions = {}) {
+    this.outputFile = options.outputFile ?? 'test-results/schema-drift.json';
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (test.annotations.some((a) => a.type === EXPECTED_SCHEMA_DRIFT)) {
+      return;
+    }
+
+    const title = test.titlePath().filter(Boolean).join(' › ');
+    const records = result.attachments
+      .filter((a) => a.name === SCHEMA_DRIFT_ATTACHMENT && a.body)
+      .flatMap((a) => JSON.parse(a.body!.toString('utf-8')) as SchemaDriftRecord[]);
+    for (const { schemaName, issues } of records) {
+      const summary = this.schemas.get(schemaName) ?? { responses: 0, unknown: [], missing: [] };
+      this.schemas.set(schemaName, summary);
+      summary.responses++;
+
+      for (const issue of issues) {
+        const fields = summary[issue.kind];
+        let field = fields.find((f) => f.path === issue.path);
+        if (!field) {
+          field = { path: issue.path, occurrences: 0, tests: [] };
+          fields.push(field);
+        }
+        field.occurrences++;
+        if (!field.tests.includes(title)) {
+          field.tests.push(title);
+        }
+      }
+    }
+  }
+
+  onEnd(): void {
+    if (this.schemas.size === 0) {
+      return;
+    }
+
+    const report = Object.fromEntries(
+      [...this.schemas.entries()].sort(([a], [b]) => a.localeCompare(b))
+    );
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(report, null, 2));
+
+    const lines = Object.entries(report)
+      .filter(([, summary]) => summary.unknown.length > 0)
+      .map(
+        ([name, summary]) =>
+          `  ${name}: ${summary.unknown.map((f) => `${f.path} (${f.occurrences}x)`).join(', ')}`
+      );
+    if (lines.length > 0) {
+      console.warn(
+        [`Schema drift: unknown fields in ${lines.length} schema(s):`, ...lines].join('\n') +
+          `\nSee ${this.outputFile}`
+      );
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { ENDPOINTS, resolvePath } from '../../fixtures/api/endpoints';
+
 /**
  * Invalid test data for validation testing
  */
@@ -58,25 +60,28 @@ export const HTTP_STATUS = {
 
 /**
  * API Endpoints
+ *
+ * Plain URL strings for raw `apiRequest` calls, derived from the typed
+ * catalog in `fixtures/api/endpoints` that the API clients use.
  */
 export const API_ENDPOINTS = {
   users: {
-    login: 'api/users/login',
-    register: 'api/users',
-    current: 'api/user',
+    login: ENDPOINTS['users.login'].path,
+    register: ENDPOINTS['users.register'].path,
+    current: ENDPOINTS['users.current'].path,
   },
   articles: {
-    base: 'api/articles',
-    bySlug: (slug: string) => `api/articles/${slug}`,
-    feed: 'api/articles/feed',
-    favorite: (slug: string) => `api/articles/${slug}/favorite`,
-    comments: (slug: string) => `api/articles/${slug}/comments`,
+    base: ENDPOINTS['articles.list'].path,
+    bySlug: (slug: string) => resolvePath(ENDPOINTS['articles.get'].path, { slug }),
+    feed: ENDPOINTS['articles.feed'].path,
+    favorite: (slug: string) => resolvePath(ENDPOINTS['articles.favorite'].path, { slug }),
+    comments: (slug: string) => resolvePath(ENDPOINTS['comments.list'].path, { slug }),
   },
   profiles: {
-    byUsername: (username: string) => `api/profiles/${username}`,
-    follow: (username: string) => `api/profiles/${username}/follow`,
+    byUsername: (username: string) => resolvePath(ENDPOINTS['profiles.get'].path, { username }),
+    follow: (username: string) => resolvePath(ENDPOINTS['profiles.follow'].path, { username }),
   },
-  tags: 'api/tags',
+  tags: ENDPOINTS['tags.list'].path,
 } as const;
 
 /**
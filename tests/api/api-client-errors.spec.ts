@@ -0,0 +1,101 @@
+/**
+ * API Client Error Classification Tests
+ *
+ * Demonstrates:
+ * 1. Transport failures surfaced as typed network errors with attempt details
+ * 2. Transient network errors retried, permanent and unclassified ones not
+ * 3. HTTP status codes mapped to typed API errors
+ */
+import { test, expect } from '../../fixtures';
+import { TagApiClient } from '../../fixtures/api/client';
+import {
+  ApiError,
+  AuthenticationError,
+  AuthorizationError,
+  ConnectionRefusedError,
+  ConnectionResetError,
+  createApiError,
+  createNetworkError,
+  DnsResolutionError,
+  NetworkError,
+  NetworkTimeoutError,
+  NotFoundError,
+  RequestAbortedError,
+  ServerError,
+  ValidationError,
+} from '../../fixtures/api/errors';
+import { ConduitMockServer } from '../../mock-server';
+
+const retry = { maxAttempts: 2, baseDelayMs: 10, jitter: false };
+
+test.describe('API client error classification', () => {
+  test(
+    'should raise ConnectionRefusedError when nothing listens',
+    { tag: ['@API', '@Negative'] },
+    async ({ request }) => {
+      const server = new ConduitMockServer();
+      const apiUrl = await server.start();
+      await server.stop();
+
+      const client = new TagApiClient(request, apiUrl, undefined, { retry });
+      const error = await client.getTags().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConnectionRefusedError);
+      expect(error).toMatchObject({ method: 'GET', attempts: 2, isTransient: true });
+      expect(client.getLogs()).toHaveLength(2);
+    }
+  );
+
+  test(
+    'should raise NetworkTimeoutError when an attempt times out',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { delayMs: 1000, times: 2 });
+      const client = new TagApiClient(request, apiUrl, undefined, { retry, timeout: 200 });
+
+      const error = await client.getTags().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NetworkTimeoutError);
+      expect((error as NetworkTimeoutError).attempts).toBe(2);
+    }
+  );
+
+  test(
+    'should classify transport failures by message',
+    { tag: ['@API', '@Regression'] },
+    (): void => {
+      const classify = (message: string): NetworkError =>
+        createNetworkError(new Error(message), '/tags');
+
+      expect(classify('connect ECONNREFUSED 127.0.0.1:3000')).toBeInstanceOf(
+        ConnectionRefusedError
+      );
+      expect(classify('socket hang up')).toBeInstanceOf(ConnectionResetError);
+      expect(classify('getaddrinfo ENOTFOUND api.example')).toBeInstanceOf(DnsResolutionError);
+      expect(classify('Timeout 200ms exceeded.')).toBeInstanceOf(NetworkTimeoutError);
+      expect(classify('Request context disposed.')).toBeInstanceOf(RequestAbortedError);
+      expect(classify('Request context disposed.').isTransient).toBe(false);
+
+      const unknown = classify('something else');
+      expect(unknown.name).toBe('NetworkError');
+      expect(unknown.isTransient).toBe(false);
+      expect(createNetworkError(new TypeError('x is not a function'), '/tags').isTransient).toBe(
+        false
+      );
+    }
+  );
+
+  test('should map status codes to API errors', { tag: ['@API', '@Regression'] }, (): void => {
+    const validation = { errors: { title: ["can't be blank"] } };
+
+    expect(createApiError(401, '/user', 'GET')).toBeInstanceOf(AuthenticationError);
+    expect(createApiError(403, '/articles/a', 'DELETE')).toBeInstanceOf(AuthorizationError);
+    expect(createApiError(404, '/articles/a', 'GET')).toBeInstanceOf(NotFoundError);
+    expect(createApiError(422, '/articles', 'POST', validation)).toBeInstanceOf(ValidationError);
+    expect(createApiError(503, '/tags', 'GET')).toBeInstanceOf(ServerError);
+
+    const other = createApiError(418, '/tags', 'GET', 'teapot');
+    expect(other).toBeInstanceOf(ApiError);
+    expect(other).toMatchObject({ status: 418, responseBody: 'teapot' });
+  });
+});
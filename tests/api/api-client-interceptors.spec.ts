@@ -0,0 +1,111 @@
+/**
+ * API Client Interceptor Tests
+ *
+ * Demonstrates:
+ * 1. Request hooks in registration order, response and error hooks in reverse
+ * 2. Short-circuiting a request with a canned response
+ * 3. Removing an interceptor with the function returned by use()
+ */
+import { test, expect } from '../../fixtures';
+import {
+  ApiInterceptor,
+  correlationIdInterceptor,
+  InterceptedResponse,
+  respondWith,
+  TagApiClient,
+} from '../../fixtures/api/client';
+import { NotFoundError } from '../../fixtures/api/errors';
+
+test.describe('API client interceptors', () => {
+  /** Interceptor that appends `<name>:<hook>` to calls for every hook */
+  const tracing = (name: string, calls: string[]): ApiInterceptor => ({
+    name,
+    onRequest: (): void => {
+      calls.push(`${name}:request`);
+    },
+    onResponse: (): void => {
+      calls.push(`${name}:response`);
+    },
+    onError: (): void => {
+      calls.push(`${name}:error`);
+    },
+  });
+
+  test(
+    'should run request hooks in order and response hooks in reverse',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }) => {
+      const calls: string[] = [];
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        interceptors: [tracing('outer', calls), tracing('inner', calls)],
+      });
+
+      await client.getTags();
+
+      expect(calls).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+    }
+  );
+
+  test(
+    'should run error hooks in reverse order',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 404, body: { errors: { tags: ['not found'] } } });
+      const calls: string[] = [];
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        interceptors: [tracing('outer', calls), tracing('inner', calls)],
+      });
+
+      await expect(client.getTags()).rejects.toBeInstanceOf(NotFoundError);
+      expect(calls).toEqual([
+        'outer:request',
+        'inner:request',
+        'inner:response',
+        'outer:response',
+        'inner:error',
+        'outer:error',
+      ]);
+    }
+  );
+
+  test(
+    'should short-circuit requests with a canned response',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const calls: string[] = [];
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        interceptors: [
+          tracing('outer', calls),
+          {
+            name: 'stub',
+            onRequest: (): InterceptedResponse => respondWith(200, { tags: ['stubbed'] }),
+          },
+          tracing('inner', calls),
+        ],
+      });
+
+      const tags = await client.getTags();
+
+      expect(tags).toEqual(['stubbed']);
+      expect(calls).toEqual(['outer:request', 'outer:response']);
+      expect(server.requests).toHaveLength(0);
+    }
+  );
+
+  test(
+    'should stop running an interceptor once removed',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }) => {
+      const client = new TagApiClient(request, apiUrl);
+      const remove = client.use(correlationIdInterceptor('X-Correlation-Id', () => 'abc'));
+
+      await client.getTags();
+      remove();
+      await client.getTags();
+
+      const [first, second] = client.getLogs();
+      expect(first.requestHeaders?.['X-Correlation-Id']).toBe('abc');
+      expect(second.requestHeaders?.['X-Correlation-Id']).toBeUndefined();
+    }
+  );
+});
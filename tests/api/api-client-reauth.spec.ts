@@ -0,0 +1,98 @@
+/**
+ * API Client Re-authentication Tests
+ *
+ * Demonstrates:
+ * 1. Re-login through the token provider after a 401, then one retry
+ * 2. Concurrent 401s of clients sharing an AuthSession collapsed into one login
+ * 3. A token rejected again after re-login surfaced as AuthenticationError
+ * 4. Tokens returned by the API (e.g. on profile update) handed to the session
+ */
+import { test, expect } from '../../fixtures';
+import { ArticleApiClient, UserApiClient } from '../../fixtures/api/client';
+import { AuthenticationError } from '../../fixtures/api/errors';
+import { AuthSession } from '../../fixtures/auth';
+import { ConduitMockServer } from '../../mock-server';
+
+const user = { email: 'reauth@example.com', password: 'password1', username: 'reauth' };
+
+/** Token the API rejects, as after a server-side logout or key rotation */
+const staleToken = 'stale-token';
+
+test.use({ mockApiUsers: [user] });
+
+test.describe('API client re-authentication', () => {
+  let logins: number;
+  let session: AuthSession;
+
+  const statuses = (server: ConduitMockServer, name: string): number[] =>
+    server.requests.filter((r) => r.name === name).map((r) => r.status);
+
+  test.beforeEach(({ request, mockApi: { apiUrl } }) => {
+    logins = 0;
+    session = new AuthSession(async () => {
+      logins++;
+      return (await new UserApiClient(request, apiUrl).login(user.email, user.password)).token;
+    }, staleToken);
+  });
+
+  test(
+    'should log in again and retry once after a 401',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const client = new UserApiClient(request, apiUrl, undefined, { tokenProvider: session });
+
+      const current = await client.getCurrentUser();
+
+      expect(current.username).toBe(user.username);
+      expect(statuses(server, 'users.current')).toEqual([401, 200]);
+      expect(logins).toBe(1);
+    }
+  );
+
+  test(
+    'should share one re-login between clients of the same session',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }) => {
+      const first = new ArticleApiClient(request, apiUrl, undefined, { tokenProvider: session });
+      const second = new ArticleApiClient(request, apiUrl, undefined, { tokenProvider: session });
+
+      await Promise.all([first.listFeedArticles(), second.listFeedArticles()]);
+
+      expect(logins).toBe(1);
+      expect(first.getToken()).not.toBe(staleToken);
+      expect(first.getToken()).toBe(second.getToken());
+    }
+  );
+
+  test(
+    'should throw AuthenticationError when the new token is rejected too',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('users.current', { status: 401, times: 2 });
+      const client = new UserApiClient(request, apiUrl, undefined, { tokenProvider: session });
+
+      await expect(client.getCurrentUser()).rejects.toBeInstanceOf(AuthenticationError);
+      expect(statuses(server, 'users.current')).toEqual([401, 401]);
+      expect(logins).toBe(1);
+    }
+  );
+
+  test(
+    'should keep re-logging in after the API returns a new token',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const client = new UserApiClient(request, apiUrl, undefined, { tokenProvider: session });
+
+      const updated = await client.updateUser({ bio: 'Updated through the session' });
+      expect(await session.getToken()).toBe(updated.token);
+
+      // Revoked later on: the client has to go through the session again
+      session.setToken(staleToken);
+      const current = await client.getCurrentUser();
+
+      expect(current.bio).toBe('Updated through the session');
+      expect(statuses(server, 'users.current')).toEqual([401, 200]);
+      expect(logins).toBe(2);
+    }
+  );
+});
@@ -0,0 +1,130 @@
+/**
+ * API Client Retry Tests
+ *
+ * Demonstrates:
+ * 1. Retries with exponential backoff on gateway and throttling errors
+ * 2. Retry-After honoured on 429, as delay seconds or an HTTP-date
+ * 3. Creates (POST) not retried unless they opt in
+ */
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../fixtures';
+import {
+  ArticleApiClient,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  RetryPolicy,
+  TagApiClient,
+  UNIQUE_CREATE_RETRY,
+  UserApiClient,
+} from '../../fixtures/api/client';
+import { ServerError } from '../../fixtures/api/errors';
+import { ArticleBuilder } from '../../test-data/builders';
+import { ConduitMockServer } from '../../mock-server';
+
+const user = { email: 'retry@example.com', password: 'password1', username: 'retry' };
+
+/** Deterministic backoff: 100ms, then 200ms */
+const retry: Partial<RetryPolicy> = { baseDelayMs: 100, backoffFactor: 2, jitter: false };
+
+test.use({ mockApiUsers: [user] });
+
+test.describe('API client retries', () => {
+  const statuses = (server: ConduitMockServer, name: string): number[] =>
+    server.requests.filter((r) => r.name === name).map((r) => r.status);
+
+  const articleClient = async (
+    request: APIRequestContext,
+    apiUrl: string
+  ): Promise<ArticleApiClient> => {
+    const users = new UserApiClient(request, apiUrl);
+    await users.login(user.email, user.password);
+    return new ArticleApiClient(request, apiUrl, users.getToken(), { retry });
+  };
+
+  test(
+    'should retry GET on 5xx with exponential backoff',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 503, times: 2 });
+      const client = new TagApiClient(request, apiUrl, undefined, { retry });
+
+      const startedAt = Date.now();
+      await client.getTags();
+
+      expect(statuses(server, 'tags.list')).toEqual([503, 503, 200]);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300);
+      expect(client.getLogs().map((entry) => entry.attempt)).toEqual([1, 2, 3]);
+    }
+  );
+
+  test(
+    'should give up after maxAttempts',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 502, times: 5 });
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        retry: { ...retry, maxAttempts: 2 },
+      });
+
+      await expect(client.getTags()).rejects.toBeInstanceOf(ServerError);
+      expect(statuses(server, 'tags.list')).toEqual([502, 502]);
+    }
+  );
+
+  test(
+    'should wait for Retry-After on 429',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 429, headers: { 'retry-after': '1' } });
+      const client = new TagApiClient(request, apiUrl, undefined, { retry });
+
+      const startedAt = Date.now();
+      await client.getTags();
+
+      expect(statuses(server, 'tags.list')).toEqual([429, 200]);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+    }
+  );
+
+  test('should accept Retry-After as an HTTP-date', { tag: ['@API', '@Regression'] }, (): void => {
+    const policy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, retry);
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+
+    expect(computeBackoffDelay(policy, 1, inFiveSeconds)).toBeGreaterThan(3000);
+    expect(computeBackoffDelay(policy, 1, inFiveSeconds)).toBeLessThanOrEqual(5000);
+    expect(computeBackoffDelay(policy, 1, 'Wed, 21 Oct 2015 07:28:00 GMT')).toBe(0);
+    expect(computeBackoffDelay(policy, 1, 'soon')).toBe(100);
+  });
+
+  test(
+    'should not retry POST by default',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const client = await articleClient(request, apiUrl);
+      server.inject('articles.create', { status: 503 });
+
+      await expect(
+        client.createArticle(new ArticleBuilder().withTimestampPrefix().buildPayload())
+      ).rejects.toBeInstanceOf(ServerError);
+      expect(statuses(server, 'articles.create')).toEqual([503]);
+    }
+  );
+
+  test(
+    'should retry unique creates that opt in',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const client = await articleClient(request, apiUrl);
+      server.inject('articles.create', { status: 504 });
+
+      const article = await client.createArticle(
+        new ArticleBuilder().withTimestampPrefix().buildPayload(),
+        { retry: UNIQUE_CREATE_RETRY }
+      );
+
+      expect(article.slug).toBeTruthy();
+      expect(statuses(server, 'articles.create')).toEqual([504, 201]);
+    }
+  );
+});
@@ -0,0 +1,101 @@
+/**
+ * API Client Deadline and Cancellation Tests
+ *
+ * Demonstrates:
+ * 1. An overall deadline (totalTimeout) covering all attempts and backoff
+ * 2. Cancelling in-flight requests and retry backoff with an AbortSignal
+ * 3. Already-aborted signals rejected before anything is sent
+ */
+import { test, expect } from '../../fixtures';
+import { TagApiClient } from '../../fixtures/api/client';
+import { DeadlineExceededError, RequestCancelledError } from '../../fixtures/api/errors';
+
+test.describe('API client deadlines and cancellation', () => {
+  test(
+    'should stop retrying once the deadline is exceeded',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 503, times: 5 });
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        retry: { maxAttempts: 5, baseDelayMs: 300, jitter: false },
+      });
+
+      const error = await client
+        .call('tags.list', undefined, { totalTimeout: 500 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(DeadlineExceededError);
+      expect((error as DeadlineExceededError).deadlineMs).toBe(500);
+      expect(server.requests.length).toBeLessThan(5);
+    }
+  );
+
+  test(
+    'should cap a slow attempt at the deadline',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { delayMs: 1000 });
+      const client = new TagApiClient(request, apiUrl);
+
+      await expect(
+        client.call('tags.list', undefined, { totalTimeout: 300 })
+      ).rejects.toBeInstanceOf(DeadlineExceededError);
+    }
+  );
+
+  test(
+    'should cancel an in-flight request',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { delayMs: 1000 });
+      const client = new TagApiClient(request, apiUrl);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort('navigated away'), 100);
+
+      const startedAt = Date.now();
+      const error = await client
+        .call('tags.list', undefined, { signal: controller.signal })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect((error as RequestCancelledError).reason).toBe('navigated away');
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    }
+  );
+
+  test(
+    'should cancel while waiting to retry',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      server.inject('tags.list', { status: 503, times: 2 });
+      const client = new TagApiClient(request, apiUrl, undefined, {
+        retry: { baseDelayMs: 2000, jitter: false },
+      });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 200);
+
+      const startedAt = Date.now();
+      await expect(
+        client.call('tags.list', undefined, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+      expect(server.requests).toHaveLength(1);
+    }
+  );
+
+  test(
+    'should not send requests with an already-aborted signal',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }) => {
+      const client = new TagApiClient(request, apiUrl);
+
+      const error = await client
+        .call('tags.list', undefined, { signal: AbortSignal.abort('stop') })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect((error as RequestCancelledError).reason).toBe('stop');
+      expect(server.requests).toHaveLength(0);
+    }
+  );
+});
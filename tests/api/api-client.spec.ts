@@ -6,10 +6,11 @@
  * 2. Schema validation with Zod
  * 3. Validation helpers for assertions
  * 4. Proper error handling
+ * 5. API traffic attached to the report by the apiLogs fixture
  */
-import { test, expect } from '@playwright/test';
-import { ArticleApiClient } from '../../fixtures/api/client';
-import { UserApiClient } from '../../fixtures/api/client';
+import { test, expect } from '../../fixtures';
+import { ArticleApiClient, UserApiClient } from '../../fixtures/api/client';
+import { RequestValidationError } from '../../fixtures/api/errors';
 import {
   assertArticleProperties,
   assertStatus,
@@ -17,17 +18,14 @@ import {
 } from '../../fixtures/api/helpers';
 import { ArticleBuilder } from '../../test-data/builders';
 import { HTTP_STATUS } from '../../test-data/constants';
+import { config } from '../../config';
 
 test.describe('Article API with New Infrastructure', () => {
   test(
     'should create article with type-safe client',
     { tag: ['@API', '@Smoke'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       // Build test data
       const articleData = new ArticleBuilder()
@@ -58,11 +56,7 @@ test.describe('Article API with New Infrastructure', () => {
     'should validate article response schema',
     { tag: ['@API', '@Regression'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       // Build and create article
       const articleData = new ArticleBuilder().withTimestampPrefix().build();
@@ -93,11 +87,7 @@ test.describe('Article API with New Infrastructure', () => {
     'should handle article update with new slug',
     { tag: ['@API', '@Regression'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       // Create article
       const originalData = new ArticleBuilder()
@@ -133,11 +123,7 @@ test.describe('Article API with New Infrastructure', () => {
     'should return null for non-existent article',
     { tag: ['@API', '@Negative'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       const nonExistentSlug = 'this-article-does-not-exist-12345';
       const article = await articleClient.getArticle(nonExistentSlug);
@@ -150,11 +136,7 @@ test.describe('Article API with New Infrastructure', () => {
     'should get article with status code',
     { tag: ['@API', '@Regression'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       // Create article
       const articleData = new ArticleBuilder().withTimestampPrefix().build();
@@ -177,11 +159,7 @@ test.describe('Article API with New Infrastructure', () => {
     'should list articles with filters',
     { tag: ['@API', '@Regression'] },
     async ({ request }) => {
-      const articleClient = new ArticleApiClient(
-        request,
-        process.env.API_URL || '',
-        process.env.ACCESS_TOKEN
-      );
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
       // Create article with specific tag
       const tag = `test-tag-${Date.now()}`;
@@ -207,16 +185,28 @@ test.describe('Article API with New Infrastructure', () => {
     }
   );
 
+  test(
+    'should reject malformed payload before sending',
+    { tag: ['@API', '@Negative'] },
+    async ({ request }) => {
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
+
+      const articleData = new ArticleBuilder().withTitle('').build();
+
+      await expect(articleClient.createArticle({ article: articleData })).rejects.toBeInstanceOf(
+        RequestValidationError
+      );
+      // No request should have reached the API
+      expect(articleClient.getLogs()).toHaveLength(0);
+    }
+  );
+
   test.describe('Comments', () => {
     test(
       'should add and retrieve comments',
       { tag: ['@API', '@Regression'] },
       async ({ request }) => {
-        const articleClient = new ArticleApiClient(
-          request,
-          process.env.API_URL || '',
-          process.env.ACCESS_TOKEN
-        );
+        const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
 
         // Create article
         const articleData = new ArticleBuilder().withTimestampPrefix().build();
@@ -251,11 +241,11 @@ test.describe('Article API with New Infrastructure', () => {
 
 test.describe('User API with New Infrastructure', () => {
   test('should login with valid credentials', { tag: ['@API', '@Smoke'] }, async ({ request }) => {
-    const userClient = new UserApiClient(request, process.env.API_URL || '');
+    const userClient = new UserApiClient(request, config.apiUrl);
 
-    const user = await userClient.login(process.env.EMAIL || '', process.env.PASSWORD || '');
+    const user = await userClient.login(config.user.email, config.user.password);
 
-    expect(user.email).toBe(process.env.EMAIL);
+    expect(user.email).toBe(config.user.email);
     expect(user.token).toBeTruthy();
 
     // Token is auto-set on client
@@ -266,7 +256,7 @@ test.describe('User API with New Infrastructure', () => {
     'should handle login failure gracefully',
     { tag: ['@API', '@Negative'] },
     async ({ request }) => {
-      const userClient = new UserApiClient(request, process.env.API_URL || '');
+      const userClient = new UserApiClient(request, config.apiUrl);
 
       const response = await userClient.loginWithResponse('invalid@email.com', 'wrongpassword');
 
@@ -275,15 +265,15 @@ test.describe('User API with New Infrastructure', () => {
   );
 
   test('should get current user profile', { tag: ['@API', '@Regression'] }, async ({ request }) => {
-    const userClient = new UserApiClient(request, process.env.API_URL || '');
+    const userClient = new UserApiClient(request, config.apiUrl);
 
     // First login to get token
-    await userClient.login(process.env.EMAIL || '', process.env.PASSWORD || '');
+    await userClient.login(config.user.email, config.user.password);
 
     // Get current user
     const user = await userClient.getCurrentUser();
 
-    expect(user.email).toBe(process.env.EMAIL);
+    expect(user.email).toBe(config.user.email);
     expect(user.username).toBeTruthy();
   });
 
@@ -291,10 +281,10 @@ test.describe('User API with New Infrastructure', () => {
     'should get user profile by username',
     { tag: ['@API', '@Regression'] },
     async ({ request }) => {
-      const userClient = new UserApiClient(request, process.env.API_URL || '');
+      const userClient = new UserApiClient(request, config.apiUrl);
 
       // Login first
-      const user = await userClient.login(process.env.EMAIL || '', process.env.PASSWORD || '');
+      const user = await userClient.login(config.user.email, config.user.password);
 
       // Get profile
       const profile = await userClient.getProfile(user.username);
@@ -0,0 +1,58 @@
+/**
+ * Article Pagination API Tests
+ *
+ * Demonstrates:
+ * 1. Walking article listings page by page with async iterators
+ * 2. Collecting whole listings with collectAllArticles
+ * 3. Asserting paging consistency (no duplicates, no gaps, stable ordering)
+ */
+import { test, expect } from '../../fixtures';
+import { ArticleApiClient } from '../../fixtures/api/client';
+import { assertConsistentPaging, collectPages } from '../../fixtures/api/helpers';
+import { ArticleBuilder } from '../../test-data/builders';
+import { config } from '../../config';
+
+test.describe('Article Pagination', () => {
+  const articleCount = 5;
+  let tag: string;
+
+  test.beforeEach(async ({ request, cleanup }) => {
+    const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
+
+    tag = `paging-${Date.now()}`;
+    for (let i = 0; i < articleCount; i++) {
+      const articleData = new ArticleBuilder().withTimestampPrefix().withTags([tag]).build();
+      const article = await articleClient.createArticle({ article: articleData });
+      cleanup.registerArticle(article.slug);
+    }
+  });
+
+  test(
+    'should walk tagged articles page by page without gaps or duplicates',
+    { tag: ['@API', '@Regression'] },
+    async ({ request }) => {
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
+
+      const pages = await collectPages(articleClient.iterateArticlePages({ tag }, { pageSize: 2 }));
+
+      expect(pages).toHaveLength(Math.ceil(articleCount / 2));
+      assertConsistentPaging(pages, (article) => article.slug, {
+        value: (article) => article.createdAt,
+        direction: 'desc',
+      });
+    }
+  );
+
+  test(
+    'should stop collecting articles at max',
+    { tag: ['@API', '@Regression'] },
+    async ({ request }) => {
+      const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
+
+      const articles = await articleClient.collectAllArticles({ tag }, { pageSize: 2, max: 3 });
+
+      expect(articles).toHaveLength(3);
+      expect(articles.every((article) => article.tagList.includes(tag))).toBeTruthy();
+    }
+  );
+});
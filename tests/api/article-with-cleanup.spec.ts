@@ -5,11 +5,13 @@
  * 1. Using testArticle fixture for pre-created test data
  * 2. Using cleanup fixture for automatic resource cleanup
  * 3. Using articleApi service for API operations
+ * 4. Registering undo actions for comments and favorites
  */
 import { test, expect } from '../../fixtures';
 import { ArticleResponseSchema } from '../../fixtures/api/schemas';
-import { ArticleBuilder } from '../../test-data/builders';
+import { ArticleBuilder, CommentBuilder } from '../../test-data/builders';
 import { HTTP_STATUS, API_ENDPOINTS } from '../../test-data/constants';
+import { config } from '../../config';
 
 test.describe('Article API with Cleanup Fixtures', () => {
   /**
@@ -23,7 +25,7 @@ test.describe('Article API with Cleanup Fixtures', () => {
       const { status, body } = await apiRequest<{ article: typeof testArticle }>({
         method: 'GET',
         url: API_ENDPOINTS.articles.bySlug(testArticle.slug),
-        baseUrl: process.env.API_URL,
+        baseUrl: config.apiUrl,
       });
 
       expect(status).toBe(HTTP_STATUS.OK);
@@ -92,6 +94,34 @@ test.describe('Article API with Cleanup Fixtures', () => {
     }
   );
 
+  /**
+   * Test demonstrating undo actions for related resources, ordered by declared dependencies
+   */
+  test(
+    'should undo comments and favorites before deleting the article',
+    { tag: ['@API', '@Regression'] },
+    async ({ articleApi, cleanup }) => {
+      const { slug } = await articleApi.createArticle(
+        new ArticleBuilder().withTimestampPrefix().buildPayload()
+      );
+      cleanup.registerArticle(slug);
+
+      const comment = await articleApi.client.addComment(slug, new CommentBuilder().buildPayload());
+      cleanup.registerComment(slug, comment.id);
+
+      await articleApi.client.favoriteArticle(slug);
+      cleanup.registerFavorite(slug);
+
+      const outcomes = await cleanup.cleanup();
+
+      // Comment and favorite declare a dependency on the article, so it is deleted last
+      expect(outcomes.map((o) => o.type)).toHaveLength(3);
+      expect(outcomes[outcomes.length - 1].type).toBe('article');
+      expect(outcomes.every((o) => o.status === 'cleaned')).toBeTruthy();
+      expect(await articleApi.getArticle(slug)).toBeNull();
+    }
+  );
+
   /**
    * Original CRUD test - kept for reference, now with improved cleanup
    */
@@ -109,9 +139,9 @@ test.describe('Article API with Cleanup Fixtures', () => {
         const { status, body } = await apiRequest<{ article: { slug: string; title: string } }>({
           method: 'POST',
           url: `${API_ENDPOINTS.articles.base}/`,
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
           body: createPayload as unknown as Record<string, unknown>,
-          headers: process.env.ACCESS_TOKEN,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.CREATED);
@@ -127,7 +157,7 @@ test.describe('Article API with Cleanup Fixtures', () => {
         const { status, body } = await apiRequest<{ article: { title: string } }>({
           method: 'GET',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
         });
 
         expect(status).toBe(HTTP_STATUS.OK);
@@ -138,9 +168,9 @@ test.describe('Article API with Cleanup Fixtures', () => {
         const { status, body } = await apiRequest<{ article: { slug: string; title: string } }>({
           method: 'PUT',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
           body: updatePayload as unknown as Record<string, unknown>,
-          headers: process.env.ACCESS_TOKEN,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.OK);
@@ -158,8 +188,8 @@ test.describe('Article API with Cleanup Fixtures', () => {
         const { status } = await apiRequest({
           method: 'DELETE',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
-          headers: process.env.ACCESS_TOKEN,
+          baseUrl: config.apiUrl,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.NO_CONTENT);
@@ -172,7 +202,7 @@ test.describe('Article API with Cleanup Fixtures', () => {
         const { status } = await apiRequest({
           method: 'GET',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
         });
 
         expect(status).toBe(HTTP_STATUS.NOT_FOUND);
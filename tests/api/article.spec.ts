@@ -3,6 +3,7 @@ import { ArticleResponse } from '../../fixtures/api/types-guards';
 import { test, expect } from '../../fixtures/pom/test-options';
 import { ArticleBuilder } from '../../test-data/builders';
 import { HTTP_STATUS, API_ENDPOINTS } from '../../test-data/constants';
+import { config } from '../../config';
 
 test.describe('Article API CRUD Operations', () => {
   test(
@@ -20,9 +21,9 @@ test.describe('Article API CRUD Operations', () => {
         const { status, body } = await apiRequest<ArticleResponse>({
           method: 'POST',
           url: `${API_ENDPOINTS.articles.base}/`,
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
           body: createPayload as unknown as Record<string, unknown>,
-          headers: process.env.ACCESS_TOKEN,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.CREATED);
@@ -35,7 +36,7 @@ test.describe('Article API CRUD Operations', () => {
         const { status, body } = await apiRequest<ArticleResponse>({
           method: 'GET',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
         });
 
         expect(status).toBe(HTTP_STATUS.OK);
@@ -47,9 +48,9 @@ test.describe('Article API CRUD Operations', () => {
         const { status, body } = await apiRequest<ArticleResponse>({
           method: 'PUT',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
           body: updatePayload as unknown as Record<string, unknown>,
-          headers: process.env.ACCESS_TOKEN,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.OK);
@@ -62,7 +63,7 @@ test.describe('Article API CRUD Operations', () => {
         const { status, body } = await apiRequest<ArticleResponse>({
           method: 'GET',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
         });
 
         expect(status).toBe(HTTP_STATUS.OK);
@@ -74,8 +75,8 @@ test.describe('Article API CRUD Operations', () => {
         const { status } = await apiRequest({
           method: 'DELETE',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
-          headers: process.env.ACCESS_TOKEN,
+          baseUrl: config.apiUrl,
+          headers: config.accessToken,
         });
 
         expect(status).toBe(HTTP_STATUS.NO_CONTENT);
@@ -85,7 +86,7 @@ test.describe('Article API CRUD Operations', () => {
         const { status } = await apiRequest({
           method: 'GET',
           url: API_ENDPOINTS.articles.bySlug(articleSlug),
-          baseUrl: process.env.API_URL,
+          baseUrl: config.apiUrl,
         });
 
         expect(status).toBe(HTTP_STATUS.NOT_FOUND);
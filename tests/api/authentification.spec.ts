@@ -8,6 +8,7 @@ import {
   HTTP_STATUS,
   API_ENDPOINTS,
 } from '../../test-data/constants';
+import { config } from '../../config';
 
 test.describe('Authentication API Validation', () => {
   test(
@@ -17,7 +18,7 @@ test.describe('Authentication API Validation', () => {
       const { status, body } = await apiRequest<ErrorResponse>({
         method: 'POST',
         url: API_ENDPOINTS.users.login,
-        baseUrl: process.env.API_URL,
+        baseUrl: config.apiUrl,
         body: {
           user: {
             email: INVALID_EMAILS[0],
@@ -40,7 +41,7 @@ test.describe('Authentication API Validation', () => {
           const { status, body } = await apiRequest<ErrorResponse>({
             method: 'POST',
             url: API_ENDPOINTS.users.register,
-            baseUrl: process.env.API_URL,
+            baseUrl: config.apiUrl,
             body: {
               user: {
                 email: invalidEmail,
@@ -60,7 +61,7 @@ test.describe('Authentication API Validation', () => {
           const { status, body } = await apiRequest<ErrorResponse>({
             method: 'POST',
             url: API_ENDPOINTS.users.register,
-            baseUrl: process.env.API_URL,
+            baseUrl: config.apiUrl,
             body: {
               user: {
                 email: 'validEmail@test.com',
@@ -80,7 +81,7 @@ test.describe('Authentication API Validation', () => {
           const { status, body } = await apiRequest<ErrorResponse>({
             method: 'POST',
             url: API_ENDPOINTS.users.register,
-            baseUrl: process.env.API_URL,
+            baseUrl: config.apiUrl,
             body: {
               user: {
                 email: 'validEmail@test.com',
@@ -0,0 +1,74 @@
+/**
+ * Mock Conduit API Tests
+ *
+ * Demonstrates:
+ * 1. An in-memory Conduit API shared by the worker through the mockApi fixture
+ * 2. Cross-user flows (follow, feed, favorites) against the mock
+ * 3. Authentication rules of the mock (expired and missing tokens)
+ */
+import { test, expect } from '../../fixtures';
+import { ArticleApiClient, UserApiClient } from '../../fixtures/api/client';
+import { AuthenticationError, AuthorizationError } from '../../fixtures/api/errors';
+import { ArticleBuilder, UserBuilder } from '../../test-data/builders';
+import { ConduitMockServer } from '../../mock-server';
+
+test.describe('Mock Conduit API', () => {
+  test(
+    'should serve follow, feed and favorites between two users',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }) => {
+      const register = async (): Promise<UserApiClient> => {
+        const client = new UserApiClient(request, apiUrl);
+        const { username, email, password } = UserBuilder.unique().buildRegistration();
+        await client.register(username, email, password);
+        return client;
+      };
+      const authorClient = await register();
+      const readerClient = await register();
+      const author = await authorClient.getCurrentUser();
+
+      const articles = new ArticleApiClient(request, apiUrl, authorClient.getToken());
+      const article = await articles.createArticle(
+        new ArticleBuilder().withTimestampPrefix().withTags(['mock']).buildPayload()
+      );
+
+      const readerArticles = new ArticleApiClient(request, apiUrl, readerClient.getToken());
+      const profile = await readerClient.followUser(author.username);
+      const favorited = await readerArticles.favoriteArticle(article.slug);
+      const feed = await readerArticles.listFeedArticles();
+
+      expect(profile.following).toBe(true);
+      expect(favorited).toMatchObject({ favorited: true, favoritesCount: 1 });
+      expect(feed.articles.map(({ slug }) => slug)).toEqual([article.slug]);
+      await expect(readerArticles.deleteArticle(article.slug)).rejects.toBeInstanceOf(
+        AuthorizationError
+      );
+    }
+  );
+
+  test(
+    'should reject expired and missing tokens',
+    { tag: ['@API', '@Negative'] },
+    async ({ request }) => {
+      const expiring = new ConduitMockServer({
+        users: [{ email: 'expired@example.com', password: 'password1', username: 'expired' }],
+        tokenTtlSeconds: -1,
+      });
+      const expiringUrl = await expiring.start();
+
+      try {
+        const users = new UserApiClient(request, expiringUrl);
+        await users.login('expired@example.com', 'password1');
+
+        await expect(users.getCurrentUser()).rejects.toBeInstanceOf(AuthenticationError);
+        await expect(
+          new ArticleApiClient(request, expiringUrl).createArticle(
+            new ArticleBuilder().buildPayload()
+          )
+        ).rejects.toBeInstanceOf(AuthenticationError);
+      } finally {
+        await expiring.stop();
+      }
+    }
+  );
+});
@@ -0,0 +1,43 @@
+/**
+ * Cross-User API Tests
+ *
+ * Demonstrates:
+ * 1. Acting as named personas with asUser()
+ * 2. Authorization checks between an author and a reader
+ */
+import { test, expect } from '../../fixtures';
+import { AuthorizationError } from '../../fixtures/api/errors';
+import { Article } from '../../fixtures/api/types';
+import { ArticleBuilder } from '../../test-data/builders';
+import { hasPersona } from '../../fixtures/auth';
+
+test.describe('Personas', () => {
+  test.skip(
+    ({ personas }) => !hasPersona('reader', personas),
+    'Set READER_EMAIL and READER_PASSWORD to run cross-user tests'
+  );
+
+  let article: Article;
+
+  test.beforeEach(async ({ asUser, cleanup }) => {
+    const author = await asUser('author');
+    article = await author.articles.createArticle(
+      new ArticleBuilder().withTimestampPrefix().buildPayload()
+    );
+    cleanup.registerArticle(article.slug);
+  });
+
+  test(
+    "reader cannot edit author's article",
+    { tag: ['@API', '@Regression'] },
+    async ({ asUser }) => {
+      const reader = await asUser('reader');
+
+      await expect(
+        reader.articles.updateArticle(article.slug, {
+          article: { title: `${article.title} (edited by reader)` },
+        })
+      ).rejects.toBeInstanceOf(AuthorizationError);
+    }
+  );
+});
@@ -0,0 +1,137 @@
+/**
+ * Record & Replay Tests
+ *
+ * Demonstrates:
+ * 1. Recording client traffic to a per-test fixture file
+ * 2. Replaying it without the network, matched by method, URL and body
+ * 3. Secrets (Authorization header, tokens, passwords) kept out of the fixtures
+ */
+import fs from 'fs';
+import { test, expect } from '../../fixtures';
+import {
+  ArticleApiClient,
+  RecordingFile,
+  RecordingOptions,
+  UserApiClient,
+} from '../../fixtures/api/client';
+import { RecordingNotFoundError } from '../../fixtures/api/errors';
+import { ArticleBuilder } from '../../test-data/builders';
+
+const user = { email: 'recorder@example.com', password: 'secret-password1', username: 'recorder' };
+
+test.use({ mockApiUsers: [user] });
+
+test.describe('Record & Replay', () => {
+  /** Fixture files written by the current test */
+  const recordingFiles = (dir: string): string[] =>
+    fs
+      .readdirSync(dir, { recursive: true, encoding: 'utf-8' })
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => `${dir}/${name}`);
+
+  test(
+    'should record exchanges and replay them without the network',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { server, apiUrl } }, testInfo) => {
+      const dir = testInfo.outputPath('recordings');
+      const record: RecordingOptions = { mode: 'record', dir };
+      const users = new UserApiClient(request, apiUrl, undefined, { recording: record });
+      const { token } = await users.login(user.email, user.password);
+      const articles = new ArticleApiClient(request, apiUrl, token, { recording: record });
+      const created = await articles.createArticle(new ArticleBuilder().buildPayload());
+      await articles.getArticle(created.slug);
+
+      const [file] = recordingFiles(dir);
+      const recording = JSON.parse(fs.readFileSync(file, 'utf-8')) as RecordingFile;
+      expect(recording.exchanges.map((e) => `${e.request.method} ${e.response.status}`)).toEqual([
+        'POST 200',
+        'POST 201',
+        'GET 200',
+      ]);
+
+      const recordedRequests = server.requests.length;
+      const replay: RecordingOptions = { mode: 'replay', dir };
+      const replayUsers = new UserApiClient(request, apiUrl, undefined, { recording: replay });
+      const replayed = await replayUsers.login(user.email, user.password);
+      const replayArticles = new ArticleApiClient(request, apiUrl, replayed.token, {
+        recording: replay,
+      });
+      const replayedArticle = await replayArticles.createArticle(
+        new ArticleBuilder().buildPayload()
+      );
+
+      expect(replayed.username).toBe(user.username);
+      expect(replayedArticle.author.username).toBe(user.username);
+      expect(await replayArticles.getArticle(replayedArticle.slug)).toMatchObject({
+        slug: replayedArticle.slug,
+      });
+      expect(server.requests).toHaveLength(recordedRequests);
+    }
+  );
+
+  test(
+    'should fail requests without a recording',
+    { tag: ['@API', '@Negative'] },
+    async ({ request, mockApi: { server, apiUrl } }, testInfo) => {
+      const dir = testInfo.outputPath('recordings');
+      const client = new ArticleApiClient(request, apiUrl, undefined, {
+        recording: { mode: 'replay', dir },
+      });
+
+      const error = await client.listArticles().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RecordingNotFoundError);
+      expect((error as RecordingNotFoundError).key).toContain('GET /api/articles');
+      expect(server.requests).toHaveLength(0);
+    }
+  );
+
+  test(
+    'should match replayed requests by method and body',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }, testInfo) => {
+      const dir = testInfo.outputPath('recordings');
+      const { token } = await new UserApiClient(request, apiUrl).login(user.email, user.password);
+      const client = (mode: 'record' | 'replay'): ArticleApiClient =>
+        new ArticleApiClient(request, apiUrl, token, { recording: { mode, dir } });
+
+      const recorder = client('record');
+      const alpha = new ArticleBuilder().withTitle('Alpha article').buildPayload();
+      const beta = new ArticleBuilder().withTitle('Beta article').buildPayload();
+      await recorder.createArticle(alpha);
+      const recordedBeta = await recorder.createArticle(beta);
+
+      // Replayed out of order: each body gets its own response
+      const replayer = client('replay');
+      expect((await replayer.createArticle(beta)).title).toBe('Beta article');
+      expect((await replayer.createArticle(alpha)).title).toBe('Alpha article');
+
+      // Same URL, other method: not recorded
+      await expect(replayer.deleteArticle(recordedBeta.slug)).rejects.toBeInstanceOf(
+        RecordingNotFoundError
+      );
+    }
+  );
+
+  test(
+    'should keep tokens and passwords out of the recordings',
+    { tag: ['@API', '@Regression'] },
+    async ({ request, mockApi: { apiUrl } }, testInfo) => {
+      const dir = testInfo.outputPath('recordings');
+      const client = new UserApiClient(request, apiUrl, undefined, {
+        recording: { mode: 'record', dir },
+      });
+      const { token } = await client.login(user.email, user.password);
+      await client.getCurrentUser();
+
+      const [file] = recordingFiles(dir);
+      const content = fs.readFileSync(file, 'utf-8');
+
+      expect(content).not.toContain(token);
+      expect(content).not.toContain(user.password);
+      expect(content).not.toMatch(/authorization/i);
+      expect(content).toContain('"token": "<token>"');
+      expect(content).toContain('<password>');
+    }
+  );
+});
@@ -0,0 +1,153 @@
+/**
+ * Schema Drift Tests
+ *
+ * Demonstrates:
+ * 1. Strict validation reporting unknown keys as warnings or failures
+ * 2. Strict clients failing on responses with undeclared fields
+ * 3. Drift recorded per schema name for the run-level schema drift report
+ * 4. Optional and defaulted fields not reported as missing
+ *
+ * The drift in these tests is synthetic, so they are annotated with
+ * EXPECTED_SCHEMA_DRIFT and kept out of the run-level report.
+ */
+import { TestInfo } from '@playwright/test';
+import { z } from 'zod';
+import { test, expect } from '../../fixtures';
+import { ArticleApiClient, InterceptedResponse, UserApiClient } from '../../fixtures/api/client';
+import { SchemaDriftError } from '../../fixtures/api/errors';
+import {
+  detectSchemaDrift,
+  EXPECTED_SCHEMA_DRIFT,
+  SCHEMA_DRIFT_ATTACHMENT,
+  SchemaDriftRecord,
+  validateSchema,
+} from '../../fixtures/api/helpers';
+import { ArticlesResponseSchema } from '../../fixtures/api/schemas/api-schemas';
+import { ArticleBuilder, UserBuilder } from '../../test-data/builders';
+
+const articlesResponse = {
+  articles: [
+    {
+      slug: 'drifted-article',
+      title: 'Drifted article',
+      description: 'description',
+      body: 'body',
+      tagList: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      favorited: false,
+      favoritesCount: 0,
+      readingTime: 3,
+      author: { username: 'author', bio: null, image: '', following: false, email: 'a@b.c' },
+    },
+  ],
+  articlesCount: 1,
+};
+
+test.describe('Schema Drift', () => {
+  /** Drift attached to the running test so far */
+  const driftAttachments = (): TestInfo['attachments'] =>
+    test.info().attachments.filter((a) => a.name === SCHEMA_DRIFT_ATTACHMENT);
+
+  test(
+    'should report unknown keys as warnings or failures',
+    { tag: ['@API', '@Regression'] },
+    (): void => {
+      const lenient = validateSchema(articlesResponse, ArticlesResponseSchema, { strict: 'off' });
+      const warned = validateSchema(articlesResponse, ArticlesResponseSchema, {
+        strict: 'warn',
+        schemaName: 'ArticlesResponse',
+        record: false,
+      });
+      const failed = validateSchema(articlesResponse, ArticlesResponseSchema, {
+        strict: 'fail',
+        schemaName: 'ArticlesResponse',
+        record: false,
+      });
+
+      expect(lenient).toEqual({ success: true, data: expect.anything() });
+      expect(warned.success).toBe(true);
+      expect(warned.drift).toEqual([
+        { kind: 'unknown', path: 'articles[].readingTime' },
+        { kind: 'unknown', path: 'articles[].author.email' },
+      ]);
+      expect(failed.success).toBe(false);
+      expect(failed.errors?.map((e) => e.path)).toEqual([
+        'articles[].readingTime',
+        'articles[].author.email',
+      ]);
+      expect(driftAttachments()).toEqual([]);
+    }
+  );
+
+  test(
+    'should attach recorded drift to the running test',
+    { tag: ['@API', '@Regression'], annotation: { type: EXPECTED_SCHEMA_DRIFT } },
+    (): void => {
+      validateSchema(articlesResponse, ArticlesResponseSchema, {
+        strict: 'warn',
+        schemaName: 'ArticlesResponse',
+      });
+
+      const [attachment] = driftAttachments();
+      const records = JSON.parse(attachment.body!.toString('utf-8')) as SchemaDriftRecord[];
+      expect(records).toEqual([
+        {
+          schemaName: 'ArticlesResponse',
+          issues: [
+            { kind: 'unknown', path: 'articles[].readingTime' },
+            { kind: 'unknown', path: 'articles[].author.email' },
+          ],
+        },
+      ]);
+    }
+  );
+
+  test(
+    'should not report optional or defaulted fields as missing',
+    { tag: ['@API', '@Regression'] },
+    (): void => {
+      const schema = z.object({
+        title: z.string(),
+        bio: z.string().nullable(),
+        image: z.string().optional(),
+        following: z.boolean().nullable().optional(),
+        tagList: z.array(z.string()).default([]),
+      });
+
+      expect(detectSchemaDrift({}, schema)).toEqual([
+        { kind: 'missing', path: 'title' },
+        { kind: 'missing', path: 'bio' },
+      ]);
+    }
+  );
+
+  test(
+    'should fail strict clients on undeclared response fields',
+    { tag: ['@API', '@Negative'], annotation: { type: EXPECTED_SCHEMA_DRIFT } },
+    async ({ request, mockApi: { apiUrl } }) => {
+      const users = new UserApiClient(request, apiUrl, undefined, { strictSchemas: 'fail' });
+      const { username, email, password } = UserBuilder.unique().buildRegistration();
+      await users.register(username, email, password);
+
+      const articles = new ArticleApiClient(request, apiUrl, users.getToken(), {
+        strictSchemas: 'fail',
+        interceptors: [
+          {
+            name: 'add-field',
+            onResponse: (response): InterceptedResponse => ({
+              ...response,
+              body: { article: { ...(response.body as { article: object }).article, views: 1 } },
+            }),
+          },
+        ],
+      });
+
+      const error = await articles
+        .createArticle(new ArticleBuilder().buildPayload())
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(SchemaDriftError);
+      expect((error as SchemaDriftError).unknownKeys).toEqual(['article.views']);
+    }
+  );
+});
@@ -0,0 +1,38 @@
+/**
+ * Tags API Tests
+ *
+ * Demonstrates:
+ * 1. Reading the popular tags list with TagApiClient
+ * 2. Asserting that a freshly created article's tags become popular tags
+ */
+import { test } from '../../fixtures';
+import { ArticleApiClient, TagApiClient } from '../../fixtures/api/client';
+import { assertArticleTagsArePopular } from '../../fixtures/api/helpers';
+import { Article } from '../../fixtures/api/types';
+import { ArticleBuilder } from '../../test-data/builders';
+import { config } from '../../config';
+
+test.describe('Popular Tags', () => {
+  let article: Article;
+
+  test.beforeEach(async ({ request, cleanup }) => {
+    const articleClient = new ArticleApiClient(request, config.apiUrl, config.accessToken);
+
+    const articleData = new ArticleBuilder()
+      .withTimestampPrefix()
+      .withTags([`tag-${Date.now()}`])
+      .build();
+    article = await articleClient.createArticle({ article: articleData });
+    cleanup.registerArticle(article.slug);
+  });
+
+  test(
+    'should list tags of a new article in popular tags',
+    { tag: ['@API', '@Regression'] },
+    async ({ request }) => {
+      const tagClient = new TagApiClient(request, config.apiUrl);
+
+      await assertArticleTagsArePopular(tagClient, article);
+    }
+  );
+});
@@ -1,34 +1,63 @@
-import { test as setup, expect } from '../fixtures/pom/test-options';
-import { User } from '../fixtures/api/types-guards';
-import { UserSchema } from '../fixtures/api/schemas';
+import { test as setup, expect } from '../fixtures';
+import {
+  loginAndSaveStorageState,
+  personaStorageStatePath,
+  PersonaName,
+  saveStorageState,
+  USER_STORAGE_STATE_PATH,
+} from '../fixtures/auth';
+import { config } from '../config';
 
-setup('auth user', async ({ apiRequest, homePage, loginPage, navigation, page }) => {
-  await setup.step('auth for user by API', async () => {
-    const { status, body } = await apiRequest<User>({
-      method: 'POST',
-      url: 'api/users/login',
-      baseUrl: process.env.API_URL,
-      body: {
-        user: {
-          email: process.env.EMAIL,
-          password: process.env.PASSWORD,
-        },
-      },
+/**
+ * Storage state is produced from API tokens; set AUTH_UI_LOGIN=true to also
+ * smoke-check the login form.
+ */
+const uiLogin = config.authUiLogin;
+
+setup('auth user', async ({ request, personas }) => {
+  const user = await setup.step('auth for user by API', async () => {
+    // UserApiClient retries the login on gateway errors and validates the response schema
+    const user = await loginAndSaveStorageState(request, {
+      apiUrl: config.apiUrl,
+      baseUrl: config.baseUrl,
+      email: config.user.email,
+      password: config.user.password,
+      path: USER_STORAGE_STATE_PATH,
     });
 
-    expect(status).toBe(200);
-    expect(UserSchema.parse(body)).toBeTruthy();
-    process.env['ACCESS_TOKEN'] = body.user.token;
+    expect(user.token).toBeTruthy();
+    config.accessToken = user.token;
+    return user;
+  });
+
+  await setup.step('create persona sessions', async () => {
+    for (const name of Object.keys(personas) as PersonaName[]) {
+      const { email, password, anonymous } = personas[name];
+      if (anonymous || !email || !password) {
+        continue;
+      }
+      // The default user (usually the author persona) is already logged in
+      if (email.toLowerCase() === config.user.email.toLowerCase()) {
+        saveStorageState(user.token, config.baseUrl, personaStorageStatePath(name));
+        continue;
+      }
+      await loginAndSaveStorageState(request, {
+        apiUrl: config.apiUrl,
+        baseUrl: config.baseUrl,
+        email,
+        password,
+        path: personaStorageStatePath(name),
+      });
+    }
   });
+});
+
+setup.describe('UI login smoke', () => {
+  setup.skip(!uiLogin, 'Set AUTH_UI_LOGIN=true to smoke-check the login form');
 
-  await setup.step('create logged in user session', async () => {
+  setup('auth user via UI', async ({ homePage, loginPage, navigation }) => {
     await homePage.navigateAsGuest();
     await navigation.clickSignIn();
-    await loginPage.loginAndVerify(
-      process.env.EMAIL!,
-      process.env.PASSWORD!,
-      process.env.USER_NAME!
-    );
-    await page.context().storageState({ path: '.auth/userSession.json' });
+    await loginPage.loginAndVerify(config.user.email, config.user.password, config.user.username);
   });
 });
@@ -0,0 +1,60 @@
+import { test as teardown, APIRequestContext } from '@playwright/test';
+import { ArticleApiClient, UserApiClient } from '../fixtures/api/client';
+import { PersonaName, PersonaSessionCache, personasFromEnv } from '../fixtures/auth';
+import {
+  LedgerReplayClient,
+  replayLedgers,
+  reportCleanupOutcomes,
+  sweepOrphanedArticles,
+} from '../fixtures/test-hooks';
+import { config } from '../config';
+
+/**
+ * Runs after all tests (teardown of the `setup` project) or standalone via
+ * `npm run cleanup` to remove resources left behind by crashed workers.
+ */
+
+const { apiUrl } = config;
+
+async function resolveToken(request: APIRequestContext): Promise<string> {
+  if (config.accessToken) {
+    return config.accessToken;
+  }
+  const user = await new UserApiClient(request, apiUrl).login(
+    config.user.email,
+    config.user.password
+  );
+  return user.token;
+}
+
+teardown('replay cleanup ledger', async ({ request }, testInfo) => {
+  // Each entry is replayed as the persona that owns the resource
+  const sessions = new PersonaSessionCache(request, apiUrl, personasFromEnv());
+  const clients = new Map<PersonaName, LedgerReplayClient>();
+  const clientFor = (owner: PersonaName): LedgerReplayClient => {
+    let client = clients.get(owner);
+    if (!client) {
+      const initialToken = owner === 'author' ? config.accessToken : undefined;
+      client = new LedgerReplayClient(request, apiUrl, undefined, {
+        tokenProvider: sessions.authSession(owner, initialToken),
+      });
+      clients.set(owner, client);
+    }
+    return client;
+  };
+
+  const outcomes = await replayLedgers(clientFor);
+
+  await reportCleanupOutcomes(outcomes, 'warn', testInfo);
+});
+
+teardown('sweep orphaned test articles', async ({ request }, testInfo) => {
+  const client = new ArticleApiClient(request, apiUrl, await resolveToken(request));
+
+  const outcomes = await sweepOrphanedArticles(client, {
+    author: config.user.username,
+    maxAgeHours: config.sweepMaxAgeHours,
+  });
+
+  await reportCleanupOutcomes(outcomes, 'warn', testInfo);
+});
@@ -0,0 +1,76 @@
+/**
+ * Mocked Article UI Tests
+ *
+ * Demonstrates:
+ * 1. Empty feeds and pagination served by page.route mocks
+ * 2. Server errors for a single article
+ * 3. Loading states driven by a delayed response
+ */
+import { test, expect } from '../../fixtures/pom/page-object-fixture';
+import { ArticleBuilder, CommentBuilder } from '../../test-data/builders';
+
+test.describe('Articles with mocked API', { tag: ['@UI', '@Regression'] }, () => {
+  test('should show the empty state for an empty feed', async ({ apiMocks, homePage }) => {
+    await apiMocks.mockArticles([]);
+
+    await homePage.navigateAsUser();
+    await homePage.clickGlobalFeed();
+
+    await homePage.expectNoArticles();
+  });
+
+  test('should paginate a long feed', async ({ apiMocks, homePage }) => {
+    const articles = Array.from({ length: 25 }, (_, index) =>
+      new ArticleBuilder().withTitle(`Mocked article ${index + 1}`).build()
+    );
+    await apiMocks.mockArticles(articles);
+
+    await homePage.navigateAsUser();
+    await homePage.clickGlobalFeed();
+
+    await homePage.expectArticleCount(10);
+    await expect(homePage.pagination.locator('.page-item')).toHaveCount(3);
+  });
+
+  test('should render a mocked article with comments', async ({ apiMocks, articleViewPage }) => {
+    const comments = [CommentBuilder.random(), CommentBuilder.random()];
+    const article = await apiMocks.mockArticle(
+      new ArticleBuilder().withTitle('Mocked article').withTags(['mocked']).build(),
+      comments
+    );
+
+    await articleViewPage.navigateToArticle(article.slug);
+
+    await articleViewPage.expectArticleTitle(article.title);
+    await articleViewPage.expectTag('mocked');
+    await articleViewPage.expectCommentVisible(comments[0].body);
+  });
+
+  test('should not render an article the server fails to load', async ({
+    apiMocks,
+    articleViewPage,
+    page,
+  }) => {
+    await apiMocks.mockArticleError('broken-article', 500);
+
+    const responsePromise = page.waitForResponse((res) =>
+      res.url().includes('/api/articles/broken-article')
+    );
+    await page.goto('/#/article/broken-article');
+
+    expect((await responsePromise).status()).toBe(500);
+    await expect(articleViewPage.articleTitle).toBeHidden();
+  });
+
+  test('should show the loading state while articles load', async ({ apiMocks, homePage }) => {
+    await apiMocks.mockArticles([new ArticleBuilder().build()]);
+    await apiMocks.mockSlowResponse('articles.list', 2000);
+
+    await homePage.navigateAsUser();
+    await homePage.globalFeedTab.click();
+
+    await expect(homePage.loadingIndicator).toBeVisible();
+    await homePage.waitForArticlesToLoad();
+    await homePage.expectArticleCount(1);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Cross-User UI Tests
+ *
+ * Demonstrates:
+ * 1. Opening pages logged in as a persona
+ * 2. Hiding author-only controls from other users
+ */
+import { test } from '../../fixtures';
+import { Article } from '../../fixtures/api/types';
+import { ArticleBuilder } from '../../test-data/builders';
+import { ArticleViewPage } from '../../pages/article-view.page';
+
+test.describe('Personas', () => {
+  let article: Article;
+
+  test.beforeEach(async ({ asUser, cleanup }) => {
+    const author = await asUser('author');
+    article = await author.articles.createArticle(
+      new ArticleBuilder().withTimestampPrefix().buildPayload()
+    );
+    cleanup.registerArticle(article.slug);
+  });
+
+  test(
+    "anonymous visitor does not see the edit button on author's article",
+    { tag: ['@UI', '@Regression'] },
+    async ({ asUser }) => {
+      const visitor = await asUser('fresh-unregistered');
+      const articleViewPage = new ArticleViewPage(await visitor.newPage());
+
+      await articleViewPage.navigateToArticle(article.slug);
+
+      await articleViewPage.expectEditButtonHidden();
+    }
+  );
+});
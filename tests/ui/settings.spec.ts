@@ -0,0 +1,22 @@
+import { test } from '../../fixtures';
+import { SettingsPage } from '../../pages/settings.page';
+import { UserBuilder } from '../../test-data/builders';
+
+test.describe('User Settings', { tag: ['@UI', '@Regression'] }, () => {
+  // Profile changes run against a fresh user so the shared account stays untouched
+  test('should update username and email', async ({ freshUser }) => {
+    const settingsPage = new SettingsPage(await freshUser.newPage());
+    const updated = UserBuilder.unique().buildRegistration();
+
+    await settingsPage.navigate();
+    await settingsPage.expectUsername(freshUser.user.username);
+
+    await settingsPage.updateUsername(updated.username);
+    await settingsPage.updateEmail(updated.email);
+    await settingsPage.saveSettings();
+
+    await settingsPage.navigate();
+    await settingsPage.expectUsername(updated.username);
+    await settingsPage.expectEmail(updated.email);
+  });
+});
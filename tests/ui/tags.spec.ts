@@ -0,0 +1,18 @@
+/**
+ * Popular Tags UI Tests
+ *
+ * Demonstrates:
+ * 1. Rendering the popular tags returned by the API in the home page sidebar
+ */
+import { test } from '../../fixtures/pom/page-object-fixture';
+
+test.describe('Popular Tags', { tag: ['@UI', '@Regression'] }, () => {
+  test('should show the popular tags in the home page sidebar', async ({ apiMocks, homePage }) => {
+    const tags = [`tag-${Date.now()}`, 'playwright'];
+    await apiMocks.mockTags(tags);
+
+    await homePage.navigateAsUser();
+
+    await homePage.expectPopularTags(tags);
+  });
+});